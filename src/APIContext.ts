@@ -0,0 +1,95 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * APIContext.ts: This file contains the context shared by APIProvider and useAPI
+ */
+
+import { createContext } from 'react';
+import { jwtDecode } from 'jwt-decode';
+import { createSessionEvents } from './sessionEvents';
+import { createSessionSync, SessionSync } from './sessionSync';
+import { createBrowserTokenStore } from './tokenStore';
+import {
+   APIConfig,
+   APIMiddleware,
+   ClaimsMapper,
+   RetryPolicy,
+   SessionEvents,
+   SessionIdentity,
+   TokenClaims,
+   TokenData,
+   TokenStore,
+} from './useAPI.types';
+
+/* The configuration used when APIProvider isn't given one */
+export const defaultConfig: APIConfig = {
+   baseUrl: '',
+   tokenEndpoint: '/api/oauth2/token/',
+   logoutEndpoint: '/api/oauth2/logout/',
+   grantTypeField: 'grant_type',
+   passwordGrantType: 'password',
+   refreshGrantType: 'refresh_token',
+   crossTabSync: true,
+   syncName: 'use-api',
+   autoRefresh: false,
+};
+
+/*
+ * The default mapping from the token claims: the subject is the user, the 'api'
+ * claim is 'rw' for read/write access, and the scopes are from the OAuth2 'scope' claim
+ */
+export const defaultClaimsMapper: ClaimsMapper<TokenData> = (claims) => ({
+   user: claims.sub,
+   readwrite: claims.api === 'rw',
+   scopes: typeof claims.scope === 'string' ? claims.scope.split(' ').filter(Boolean) : [],
+});
+
+/* Decode the claims of an access token, or undefined if there is no token or it can't be decoded */
+export const decodeClaims = <TClaims extends TokenClaims = TokenData>(token: string | undefined | null): TClaims | undefined => {
+   try {
+      if (token) {
+         return jwtDecode<TClaims>(token);
+      }
+   } catch (e) {
+      /* Ignore */
+   }
+   return undefined;
+};
+
+/* Decode the claims of an access token, which are empty if it can't be decoded */
+export const decodeToken = (token: string | undefined | null): TokenData => {
+   return decodeClaims<TokenData>(token) || { sub: '', iat: 0, exp: 0, api: '' };
+};
+
+/* The identity used when there is no access token */
+export const emptyIdentity: SessionIdentity = { user: '', readwrite: false, scopes: [] };
+
+/*
+ * Marks where the built-in auth middleware goes in APIProvider's middleware
+ * list. If it isn't in the list, auth runs before all the other middleware
+ */
+export const authMiddleware: APIMiddleware = (request, next) => next(request);
+
+/* The values provided to useAPI by APIProvider */
+export interface APIContextValue {
+   config: APIConfig;
+   tokenStore: TokenStore;
+   sessionSync: SessionSync;
+   events: SessionEvents;
+   mapClaims: ClaimsMapper<TokenClaims>;
+   middleware: APIMiddleware[];
+   retry?: RetryPolicy | boolean;
+}
+
+const APIContext = createContext<APIContextValue>({
+   config: defaultConfig,
+   tokenStore: createBrowserTokenStore(),
+   sessionSync: createSessionSync(defaultConfig.syncName),
+   events: createSessionEvents(),
+   mapClaims: defaultClaimsMapper as ClaimsMapper<TokenClaims>,
+   middleware: [],
+});
+
+export default APIContext;
@@ -6,20 +6,130 @@
  * APIProvider.tsx: This file contains the API context/provider
  */
 
-import { PropsWithChildren } from 'react';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-
-// The react-query client to inject
-const queryClient = new QueryClient({
-   defaultOptions: {
-      queries: {
-         refetchOnWindowFocus: false,
+import { PropsWithChildren, useEffect, useMemo, useRef, useState } from 'react';
+import { DefaultOptions, QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import APIContext, { decodeToken, defaultClaimsMapper, defaultConfig } from './APIContext';
+import RefreshScheduler from './RefreshScheduler';
+import { createSessionEvents } from './sessionEvents';
+import { createSessionSync } from './sessionSync';
+import { createBrowserTokenStore } from './tokenStore';
+import {
+   APIConfig,
+   APIMiddleware,
+   ClaimsMapper,
+   RetryPolicy,
+   SessionCallbacks,
+   SessionEventType,
+   TokenClaims,
+   TokenData,
+   TokenStore,
+} from './useAPI.types';
+
+/* The callback prop for each session event */
+const eventCallbacks: { [type in SessionEventType]: keyof SessionCallbacks } = {
+   login: 'onLogin',
+   logout: 'onLogout',
+   refresh: 'onRefresh',
+   refreshFailed: 'onRefreshFailed',
+   sessionExpired: 'onSessionExpired',
+   unauthorized: 'onUnauthorized',
+};
+
+interface APIProviderProps<TClaims extends TokenClaims> extends SessionCallbacks {
+   config?: Partial<APIConfig>;
+   /* The react-query client to use. If not given, each provider creates its own */
+   client?: QueryClient;
+   /* The default options for the client created by the provider (ignored if client is given) */
+   defaultOptions?: DefaultOptions;
+   /* Where to keep the auth tokens (default: localStorage or sessionStorage, depending on remember) */
+   tokenStore?: TokenStore;
+   /* Maps the token claims to the user and their permissions (default: sub, api === 'rw' and scope) */
+   mapClaims?: ClaimsMapper<TClaims>;
+   /* The middleware each request passes through, in order (place authMiddleware to control where auth runs) */
+   middleware?: APIMiddleware[];
+   /* How to retry requests that fail for a transient reason (default: never retry) */
+   retry?: RetryPolicy | boolean;
+}
+
+const noMiddleware: APIMiddleware[] = [];
+
+/* Create a react-query client with our defaults, overridden by the given options */
+const createQueryClient = (defaultOptions?: DefaultOptions) => {
+   return new QueryClient({
+      defaultOptions: {
+         ...defaultOptions,
+         queries: {
+            refetchOnWindowFocus: false,
+            ...defaultOptions?.queries,
+         },
       },
-   },
-});
+   });
+};
+
+const APIProvider = <TClaims extends TokenClaims = TokenData>({
+   config,
+   client,
+   defaultOptions,
+   tokenStore,
+   mapClaims,
+   middleware = noMiddleware,
+   retry,
+   children,
+   ...callbacks
+}: PropsWithChildren<APIProviderProps<TClaims>>) => {
+   /* The client is created once per provider, so separate providers never share a cache */
+   const [ownClient] = useState(() => createQueryClient(defaultOptions));
+   const queryClient = client || ownClient;
+   const [defaultTokenStore] = useState(createBrowserTokenStore);
+   const store = tokenStore || defaultTokenStore;
+   /*
+    * The config is often given inline, so it's a new object each render. It's
+    * memoized on its values instead, so useAPI's callbacks are only recreated
+    * when the config actually changes
+    */
+   const configKey = JSON.stringify(config || {});
+   /* Unless a syncName is given, clients with different token stores sync over different channels */
+   const defaultSyncName = store.id ? `${defaultConfig.syncName}:${store.id}` : defaultConfig.syncName;
+   const fullConfig = useMemo(() => ({ ...defaultConfig, syncName: defaultSyncName, ...config }), [configKey, defaultSyncName]); // eslint-disable-line
+   const { syncName, crossTabSync, autoRefresh } = fullConfig;
+   const sessionSync = useMemo(() => createSessionSync(syncName, crossTabSync), [syncName, crossTabSync]);
+   const [events] = useState(createSessionEvents);
+   const claimsMapper = (mapClaims || defaultClaimsMapper) as ClaimsMapper<TokenClaims>;
+   const value = useMemo(
+      () => ({ config: fullConfig, tokenStore: store, sessionSync, events, mapClaims: claimsMapper, middleware, retry }),
+      [fullConfig, store, sessionSync, events, claimsMapper, middleware, retry]
+   );
+
+   /* Keep the latest callbacks in a ref, so they can change without resubscribing */
+   const callbacksRef = useRef(callbacks);
+   callbacksRef.current = callbacks;
+   useEffect(() => {
+      return events.on('*', (event) => callbacksRef.current[eventCallbacks[event.type]]?.(event));
+   }, [events]);
+
+   /* Adopt the tokens from logins, refreshes and logouts in other tabs */
+   useEffect(() => {
+      return sessionSync.subscribe((message) => {
+         if (message.type === 'tokens') {
+            store.set(message.tokens);
+         } else {
+            const { access_token } = store.get();
+            store.clear();
+            if (access_token) {
+               events.emit({ type: 'logout', tokenData: decodeToken(access_token) });
+            }
+         }
+      });
+   }, [sessionSync, store, events]);
 
-const APIProvider = ({ children }: PropsWithChildren) => {
-   return <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>;
+   return (
+      <APIContext.Provider value={value}>
+         <QueryClientProvider client={queryClient}>
+            {autoRefresh && <RefreshScheduler {...(autoRefresh === true ? {} : autoRefresh)} />}
+            {children}
+         </QueryClientProvider>
+      </APIContext.Provider>
+   );
 };
 
-export default APIProvider;
\ No newline at end of file
+export default APIProvider;
@@ -0,0 +1,67 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * RefreshScheduler.tsx: This file contains the background token refresh scheduler
+ */
+
+import { useContext, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import APIContext from './APIContext';
+import useAPI from './useAPI';
+import { AutoRefreshOptions, SessionExpiredError } from './useAPI.types';
+
+/* The longest delay (in ms) setTimeout supports, as longer ones fire immediately */
+const MAX_DELAY = 2 ** 31 - 1;
+
+const isVisible = () => typeof document === 'undefined' || document.visibilityState !== 'hidden';
+
+/*
+ * Refreshes the tokens a margin before the access token expires. Nothing is
+ * scheduled while the page is hidden, so a refresh that became due while it was
+ * hidden happens as soon as it is visible again. Failures are retried with an
+ * exponential backoff, unless the session has expired. Refreshes are at least
+ * minInterval apart, so a token that doesn't outlive the margin isn't refreshed
+ * in a loop
+ */
+const RefreshScheduler = ({ margin = 60, minBackoff = 5, maxBackoff = 300, minInterval = 10 }: AutoRefreshOptions) => {
+   const { tokenStore } = useContext(APIContext);
+   const tokens = useSyncExternalStore(tokenStore.subscribe, tokenStore.get, tokenStore.get);
+   const { expiry, refresh } = useAPI();
+   const [visible, setVisible] = useState(isVisible);
+   const [failures, setFailures] = useState(0);
+   const lastRefresh = useRef(0);
+
+   useEffect(() => {
+      const onVisibilityChange = () => setVisible(isVisible());
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+   }, []);
+
+   useEffect(() => {
+      if (!visible || !expiry || !tokens.refresh_token) {
+         return;
+      }
+
+      const delay = failures
+         ? Math.min(minBackoff * 2 ** (failures - 1), maxBackoff) * 1000
+         : Math.max(0, (expiry - margin) * 1000 - Date.now(), lastRefresh.current + minInterval * 1000 - Date.now());
+      const timer = setTimeout(
+         async () => {
+            lastRefresh.current = Date.now();
+            try {
+               await refresh();
+               setFailures(0);
+            } catch (error) {
+               setFailures(error instanceof SessionExpiredError ? 0 : (current) => current + 1);
+            }
+         },
+         Math.min(delay, MAX_DELAY)
+      );
+      return () => clearTimeout(timer);
+   }, [visible, expiry, tokens.refresh_token, failures, refresh, margin, minBackoff, maxBackoff, minInterval]);
+
+   return null;
+};
+
+export default RefreshScheduler;
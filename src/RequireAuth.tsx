@@ -0,0 +1,61 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * RequireAuth.tsx: This file contains the components that guard content behind auth
+ */
+
+import { PropsWithChildren, ReactNode, useEffect, useRef } from 'react';
+import useAPI from './useAPI';
+import useHasPermission from './useHasPermission';
+import { Permission, TokenClaims, TokenData } from './useAPI.types';
+
+interface RequireAuthProps {
+   /* Rendered instead of the children when the user isn't authenticated */
+   fallback?: ReactNode;
+   /* Called when the user isn't authenticated (eg. to redirect to a login page) */
+   onUnauthenticated?: () => void;
+}
+
+interface RequireScopeProps<TClaims extends TokenClaims> extends RequireAuthProps {
+   scope: Permission<TClaims>;
+   /* Rendered instead of the children when the user doesn't have the permission */
+   forbidden?: ReactNode;
+   /* Called when the user doesn't have the permission */
+   onForbidden?: () => void;
+}
+
+/* Call the latest version of callback whenever active becomes true */
+const useCallbackWhen = (active: boolean, callback?: () => void) => {
+   const callbackRef = useRef(callback);
+   callbackRef.current = callback;
+   useEffect(() => {
+      if (active) {
+         callbackRef.current?.();
+      }
+   }, [active]);
+};
+
+/* Only render the children if the user is authenticated */
+export const RequireAuth = ({ fallback = null, onUnauthenticated, children }: PropsWithChildren<RequireAuthProps>) => {
+   const { authenticated } = useAPI();
+   useCallbackWhen(!authenticated, onUnauthenticated);
+   return <>{authenticated ? children : fallback}</>;
+};
+
+/* Only render the children if the user is authenticated and has the required permission */
+export const RequireScope = <TClaims extends TokenClaims = TokenData>({
+   scope,
+   fallback = null,
+   forbidden = null,
+   onUnauthenticated,
+   onForbidden,
+   children,
+}: PropsWithChildren<RequireScopeProps<TClaims>>) => {
+   const { authenticated } = useAPI();
+   const permitted = useHasPermission<TClaims>(scope);
+   useCallbackWhen(!authenticated, onUnauthenticated);
+   useCallbackWhen(authenticated && !permitted, onForbidden);
+   return <>{!authenticated ? fallback : permitted ? children : forbidden}</>;
+};
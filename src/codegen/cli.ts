@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * cli.ts: This file contains the use-api-codegen command
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { parse } from 'yaml';
+/* Node needs the extension to import an ES module */
+import { generateClient, OpenAPIDocument } from './openapi.js';
+
+const USAGE = `Usage: use-api-codegen <openapi.json|openapi.yaml> [--out <file>] [--import <module>]
+
+Generates a typed client for use-api from an OpenAPI 3 document.
+
+Options:
+  -o, --out <file>       Write the client to a file instead of stdout
+  -i, --import <module>  The module to import use-api from (default: @jbloggz/use-api)
+  -h, --help             Show this help
+`;
+
+const main = (argv: string[]) => {
+   let input: string | undefined;
+   let out: string | undefined;
+   let importPath: string | undefined;
+   for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '-h' || arg === '--help') {
+         process.stdout.write(USAGE);
+         return 0;
+      } else if ((arg === '-o' || arg === '--out') && i + 1 < argv.length) {
+         out = argv[++i];
+      } else if ((arg === '-i' || arg === '--import') && i + 1 < argv.length) {
+         importPath = argv[++i];
+      } else if (!arg.startsWith('-') && !input) {
+         input = arg;
+      } else {
+         process.stderr.write(`Invalid argument: ${arg}\n\n${USAGE}`);
+         return 1;
+      }
+   }
+   if (!input) {
+      process.stderr.write(USAGE);
+      return 1;
+   }
+
+   try {
+      const text = readFileSync(input, 'utf8');
+      /* YAML is a superset of JSON, but JSON.parse is faster and gives better errors for JSON files */
+      const document = (/\.json$/i.test(input) ? JSON.parse(text) : parse(text)) as OpenAPIDocument;
+      const code = generateClient(document, {
+         importPath,
+         source: input.split(/[\\/]/).pop(),
+         onWarning: (message) => process.stderr.write(`use-api-codegen: warning: ${message}\n`),
+      });
+      if (out) {
+         writeFileSync(out, code);
+      } else {
+         process.stdout.write(code);
+      }
+      return 0;
+   } catch (e) {
+      process.stderr.write(`use-api-codegen: ${e instanceof Error ? e.message : String(e)}\n`);
+      return 1;
+   }
+};
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,521 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * openapi.ts: This file contains the generator for a typed client from an OpenAPI 3 document
+ */
+
+/* The parts of an OpenAPI 3 document that the generator uses */
+export interface SchemaObject {
+   $ref?: string;
+   type?: string | string[];
+   nullable?: boolean;
+   enum?: unknown[];
+   const?: unknown;
+   properties?: { [name: string]: SchemaObject };
+   required?: string[];
+   additionalProperties?: boolean | SchemaObject;
+   items?: SchemaObject;
+   allOf?: SchemaObject[];
+   oneOf?: SchemaObject[];
+   anyOf?: SchemaObject[];
+}
+
+export interface ReferenceObject {
+   $ref: string;
+}
+
+export interface ParameterObject {
+   name: string;
+   in: 'path' | 'query' | 'header' | 'cookie';
+   required?: boolean;
+   schema?: SchemaObject;
+}
+
+export interface RequestBodyObject {
+   required?: boolean;
+   content?: { [mediaType: string]: { schema?: SchemaObject } };
+}
+
+export interface ResponseObject {
+   content?: { [mediaType: string]: { schema?: SchemaObject } };
+}
+
+export interface OperationObject {
+   operationId?: string;
+   summary?: string;
+   parameters?: (ParameterObject | ReferenceObject)[];
+   requestBody?: RequestBodyObject | ReferenceObject;
+   responses?: { [status: string]: ResponseObject | ReferenceObject };
+}
+
+export type PathItemObject = { parameters?: (ParameterObject | ReferenceObject)[] } & {
+   [method in 'get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch']?: OperationObject;
+};
+
+export interface OpenAPIDocument {
+   openapi: string;
+   info?: { title?: string; version?: string };
+   paths?: { [path: string]: PathItemObject };
+   components?: {
+      schemas?: { [name: string]: SchemaObject };
+      parameters?: { [name: string]: ParameterObject };
+      requestBodies?: { [name: string]: RequestBodyObject };
+      responses?: { [name: string]: ResponseObject };
+   };
+}
+
+export interface GenerateOptions {
+   /* The module to import useAPI and its types from (default: '@jbloggz/use-api') */
+   importPath?: string;
+   /* The file the document was read from, for the header of the generated code */
+   source?: string;
+   /* Called with a message for each part of the document that can't be generated */
+   onWarning?: (message: string) => void;
+}
+
+/* The methods in the order they are generated, ie. queries first */
+const METHODS = ['get', 'head', 'options', 'post', 'put', 'patch', 'delete'] as const;
+
+/* The methods that get data, so they are generated as queries rather than mutations */
+const QUERY_METHODS = ['get', 'head', 'options'];
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/* The names used by the generated code itself, which the generated types and functions can't take */
+const RESERVED_NAMES = [
+   'useAPI',
+   'APIRequest',
+   'buildQueryKey',
+   'MutationOptions',
+   'QueryOptions',
+   'Fields',
+   'isFields',
+   'toParams',
+   'toHeaders',
+];
+
+/* Split a name into words, eg. 'get_item-by ID' into ['get', 'item', 'by', 'ID'] */
+const words = (name: string): string[] => {
+   return name
+      .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+      .split(/[^A-Za-z\d]+/)
+      .filter(Boolean);
+};
+
+const pascal_case = (name: string): string => {
+   const result = words(name)
+      .map((word) => word[0].toUpperCase() + word.slice(1))
+      .join('');
+   return /^\d/.test(result) ? `_${result}` : result;
+};
+
+const camel_case = (name: string): string => {
+   const result = pascal_case(name);
+   return result[0].toLowerCase() + result.slice(1);
+};
+
+/* A property name, quoted if it isn't a valid identifier */
+const property = (name: string): string => (IDENTIFIER.test(name) ? name : JSON.stringify(name));
+
+/* A comment that can't be closed early by its text */
+const comment = (text: string): string => `/* ${text.replace(/\*\//g, '* /').replace(/\s+/g, ' ').trim()} */\n`;
+
+/* The first of the media types in content that matches one of the given patterns */
+const media_type = (content: { [mediaType: string]: { schema?: SchemaObject } } | undefined, patterns: RegExp[]) => {
+   for (const pattern of patterns) {
+      const type = Object.keys(content || {}).find((key) => pattern.test(key));
+      if (type) {
+         return { type, schema: content?.[type].schema };
+      }
+   }
+   return undefined;
+};
+
+const JSON_TYPES = [/^application\/json/, /\+json$/, /json/];
+
+/*
+ * Generate a TypeScript module with a typed client for an OpenAPI 3 document.
+ * It has a type and validator for each of the component schemas and, for each
+ * operation, a function that builds its APIRequest, a query key function (for
+ * queries) and a hook that wraps useQuery or useMutationQuery
+ */
+export const generateClient = (document: OpenAPIDocument, options: GenerateOptions = {}): string => {
+   if (!/^3\./.test(String(document.openapi))) {
+      throw new Error(`Unsupported OpenAPI version: ${document.openapi} (expected 3.x)`);
+   }
+   /*
+    * Every top level name in the generated code, so a schema or operation whose
+    * names would collide with another's gets a _ suffix instead
+    */
+   const usedNames = new Set(RESERVED_NAMES);
+   const claim = (base: string, derived: (name: string) => string[]): string => {
+      let name = base;
+      while (derived(name).some((item) => usedNames.has(item))) {
+         name += '_';
+      }
+      derived(name).forEach((item) => usedNames.add(item));
+      return name;
+   };
+   const schemaNames = new Map(
+      Object.keys(document.components?.schemas || {}).map((name) => [name, claim(pascal_case(name), (type) => [type, `is${type}`])])
+   );
+
+   /* Follow a local $ref, eg. '#/components/parameters/Page' */
+   const resolve = <T>(item: T | ReferenceObject): T => {
+      for (let depth = 0; depth < 32 && item && typeof item === 'object' && '$ref' in item; depth++) {
+         const ref = (item as ReferenceObject).$ref;
+         if (!ref.startsWith('#/')) {
+            throw new Error(`Unsupported $ref: ${ref} (only local references are supported)`);
+         }
+         let target: unknown = document;
+         for (const part of ref.slice(2).split('/')) {
+            target = (target as { [key: string]: unknown } | undefined)?.[part.replace(/~1/g, '/').replace(/~0/g, '~')];
+         }
+         if (target === undefined) {
+            throw new Error(`Unresolved $ref: ${ref}`);
+         }
+         item = target as T | ReferenceObject;
+      }
+      return item as T;
+   };
+
+   /* The generated name for a $ref to a component schema */
+   const schema_name = (ref: string): string | undefined => {
+      const match = ref.match(/^#\/components\/schemas\/([^/]+)$/);
+      return match ? schemaNames.get(match[1]) : undefined;
+   };
+
+   /* The TypeScript type for a schema */
+   const type_of = (schema: SchemaObject | undefined): string => {
+      if (!schema) {
+         return 'unknown';
+      }
+      if (schema.$ref) {
+         return schema_name(schema.$ref) || type_of(resolve(schema));
+      }
+      let type: string;
+      if (schema.allOf) {
+         type = schema.allOf.map((item) => `(${type_of(item)})`).join(' & ');
+      } else if (schema.oneOf || schema.anyOf) {
+         type = (schema.oneOf || schema.anyOf || []).map((item) => `(${type_of(item)})`).join(' | ');
+      } else if (schema.enum) {
+         type = schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+      } else if ('const' in schema) {
+         type = JSON.stringify(schema.const);
+      } else {
+         type = schema_types(schema)
+            .map((name) => {
+               switch (name) {
+                  case 'string':
+                  case 'boolean':
+                  case 'null':
+                     return name;
+                  case 'number':
+                  case 'integer':
+                     return 'number';
+                  case 'array':
+                     return `Array<${type_of(schema.items)}>`;
+                  case 'object':
+                     return object_type(schema);
+                  default:
+                     return 'unknown';
+               }
+            })
+            .join(' | ');
+      }
+      return schema.nullable ? `${type} | null` : type;
+   };
+
+   /* The JSON types a schema allows, inferred from its keywords if it doesn't say */
+   const schema_types = (schema: SchemaObject): string[] => {
+      if (Array.isArray(schema.type)) {
+         return schema.type;
+      }
+      if (schema.type) {
+         return [schema.type];
+      }
+      if (schema.properties || schema.additionalProperties) {
+         return ['object'];
+      }
+      return schema.items ? ['array'] : ['unknown'];
+   };
+
+   const object_type = (schema: SchemaObject): string => {
+      const required = schema.required || [];
+      const fields = Object.entries(schema.properties || {}).map(
+         ([name, value]) => `${property(name)}${required.includes(name) ? '' : '?'}: ${type_of(value)}`
+      );
+      if (!schema.properties && schema.additionalProperties) {
+         fields.push(`[key: string]: ${schema.additionalProperties === true ? 'unknown' : type_of(schema.additionalProperties)}`);
+      } else if (!schema.properties) {
+         fields.push('[key: string]: unknown');
+      }
+      return `{ ${fields.join('; ')} }`;
+   };
+
+   /* An expression that checks value against a schema */
+   const check = (schema: SchemaObject | undefined, value: string, depth = 0): string => {
+      if (!schema) {
+         return 'true';
+      }
+      if (schema.$ref) {
+         const name = schema_name(schema.$ref);
+         return name ? `is${name}(${value})` : check(resolve(schema), value, depth);
+      }
+      let expr: string;
+      if (schema.allOf) {
+         expr = schema.allOf.map((item) => check(item, value, depth)).join(' && ');
+      } else if (schema.oneOf || schema.anyOf) {
+         expr = `(${(schema.oneOf || schema.anyOf || []).map((item) => check(item, value, depth)).join(' || ')})`;
+      } else if (schema.enum) {
+         expr = `(${JSON.stringify(schema.enum)} as unknown[]).includes(${value})`;
+      } else if ('const' in schema) {
+         expr = `${value} === ${JSON.stringify(schema.const)}`;
+      } else {
+         const checks = schema_types(schema).map((name) => {
+            switch (name) {
+               case 'string':
+               case 'number':
+               case 'boolean':
+                  return `typeof ${value} === '${name}'`;
+               case 'integer':
+                  return `Number.isInteger(${value})`;
+               case 'null':
+                  return `${value} === null`;
+               case 'array': {
+                  const item = `item${depth}`;
+                  return `(Array.isArray(${value}) && (${value} as unknown[]).every((${item}) => ${check(schema.items, item, depth + 1)}))`;
+               }
+               case 'object':
+                  return object_check(schema, value, depth);
+               default:
+                  return 'true';
+            }
+         });
+         expr = checks.length > 1 ? `(${checks.join(' || ')})` : checks[0];
+      }
+      return schema.nullable ? `(${value} === null || ${expr})` : expr;
+   };
+
+   const object_check = (schema: SchemaObject, value: string, depth: number): string => {
+      const required = schema.required || [];
+      const checks = [`isFields(${value})`];
+      for (const [name, prop] of Object.entries(schema.properties || {})) {
+         const field = `(${value} as Fields)[${JSON.stringify(name)}]`;
+         if (required.includes(name)) {
+            checks.push(`${JSON.stringify(name)} in (${value} as Fields)`);
+            checks.push(check(prop, field, depth));
+         } else {
+            checks.push(`(${field} === undefined || ${check(prop, field, depth)})`);
+         }
+      }
+      if (!schema.properties && schema.additionalProperties && schema.additionalProperties !== true) {
+         const item = `value${depth}`;
+         checks.push(`Object.values(${value} as Fields).every((${item}) => ${check(schema.additionalProperties, item, depth + 1)})`);
+      }
+      return `(${checks.filter((item) => item !== 'true').join(' && ')})`;
+   };
+
+   /* The parameters of an operation, including those shared by its path */
+   const operation_params = (pathItem: PathItemObject, operation: OperationObject): ParameterObject[] => {
+      const params = new Map<string, ParameterObject>();
+      for (const param of [...(pathItem.parameters || []), ...(operation.parameters || [])].map((item) => resolve(item))) {
+         params.set(`${param.in}:${param.name}`, param);
+      }
+      return [...params.values()];
+   };
+
+   const lines: string[] = [];
+   const source = options.source ? ` from ${options.source}` : '';
+   const title = [document.info?.title, document.info?.version].filter(Boolean).join(' ');
+   lines.push(`/*\n * This file was generated by use-api-codegen${source}${title ? ` (${title})` : ''}. Do not edit it by hand\n */\n`);
+   lines.push(
+      `import useAPI, { APIRequest, buildQueryKey, MutationOptions, QueryOptions } from '${options.importPath || '@jbloggz/use-api'}';\n`
+   );
+   lines.push(`type Fields = { [key: string]: unknown };\n`);
+   lines.push(`const isFields = (data: unknown): boolean => typeof data === 'object' && data !== null && !Array.isArray(data);\n`);
+   lines.push(`/* Convert header args to headers, leaving out missing values */
+const toHeaders = (headers?: { [key: string]: unknown }) => {
+   const result: { [key: string]: string } = {};
+   for (const [key, value] of Object.entries(headers || {})) {
+      if (value !== undefined && value !== null) {
+         result[key] = String(value);
+      }
+   }
+   return result;
+};
+`);
+   lines.push(`/* Convert query args to params, repeating arrays and leaving out missing values */
+const toParams = (query?: { [key: string]: unknown }) => {
+   const params = new URLSearchParams();
+   for (const [key, value] of Object.entries(query || {})) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+         if (item !== undefined && item !== null) {
+            params.append(key, String(item));
+         }
+      }
+   }
+   return params;
+};
+`);
+
+   for (const [name, schema] of Object.entries(document.components?.schemas || {})) {
+      const typeName = schemaNames.get(name) as string;
+      lines.push(`export type ${typeName} = ${type_of(schema)};\n`);
+      lines.push(`export const is${typeName} = (data: unknown): data is ${typeName} => ${check(schema, 'data')};\n`);
+   }
+
+   for (const [path, pathItem] of Object.entries(document.paths || {})) {
+      for (const method of METHODS) {
+         const operation = pathItem[method];
+         if (!operation) {
+            continue;
+         }
+         const name = claim(camel_case(operation.operationId || `${method} ${path.replace(/[{}]/g, '')}`), (item) => {
+            const Item = item[0].toUpperCase() + item.slice(1);
+            return [item, `${item}Base`, `${item}Key`, `use${Item}`, `${Item}Args`, `${Item}Response`, `is${Item}Response`];
+         });
+         const Name = name[0].toUpperCase() + name.slice(1);
+         const isQuery = QUERY_METHODS.includes(method);
+
+         /* The path params become :name segments, which have to be identifiers */
+         const params = operation_params(pathItem, operation);
+         const pathParams = params.filter((param) => param.in === 'path');
+         const queryParams = params.filter((param) => param.in === 'query');
+         const headerParams = params.filter((param) => param.in === 'header');
+         const cookieParams = params.filter((param) => param.in === 'cookie');
+         const segment = (param: string) => camel_case(param) || 'param';
+         const url = path.replace(/{([^}]+)}/g, (_match, param: string) => `:${segment(param)}`);
+
+         const body = operation.requestBody && resolve(operation.requestBody);
+         const bodyMedia =
+            body && media_type(body.content, [...JSON_TYPES, /^multipart\/form-data/, /^application\/x-www-form-urlencoded/, /./]);
+         const bodyType = !bodyMedia
+            ? undefined
+            : JSON_TYPES.some((pattern) => pattern.test(bodyMedia.type))
+              ? type_of(bodyMedia.schema)
+              : bodyMedia.type.startsWith('multipart/form-data')
+                ? 'FormData'
+                : bodyMedia.type.startsWith('application/x-www-form-urlencoded')
+                  ? 'URLSearchParams'
+                  : 'Blob';
+
+         /* The response is from the first success status, or default */
+         const statuses = Object.keys(operation.responses || {});
+         const status = statuses.filter((code) => /^2/.test(code)).sort()[0] || statuses.find((code) => code === 'default');
+         const response = status ? resolve((operation.responses || {})[status]) : undefined;
+         const responseMedia = response && media_type(response.content, [...JSON_TYPES, /^text\//, /./]);
+         const responseJSON = responseMedia && JSON_TYPES.some((pattern) => pattern.test(responseMedia.type));
+         const responseType = !responseMedia
+            ? 'void'
+            : responseJSON
+              ? `${Name}Response`
+              : responseMedia.type.startsWith('text/')
+                ? 'string'
+                : 'Blob';
+
+         const argFields: string[] = [];
+         if (pathParams.length > 0) {
+            argFields.push(`path: { ${pathParams.map((param) => `${property(param.name)}: ${type_of(param.schema)}`).join('; ')} }`);
+         }
+         if (queryParams.length > 0) {
+            const fields = queryParams.map((param) => `${property(param.name)}${param.required ? '' : '?'}: ${type_of(param.schema)}`);
+            argFields.push(`query${queryParams.some((param) => param.required) ? '' : '?'}: { ${fields.join('; ')} }`);
+         }
+         if (headerParams.length > 0) {
+            const fields = headerParams.map((param) => `${property(param.name)}${param.required ? '' : '?'}: ${type_of(param.schema)}`);
+            argFields.push(`headers${headerParams.some((param) => param.required) ? '' : '?'}: { ${fields.join('; ')} }`);
+         }
+         if (bodyType) {
+            argFields.push(`body${body?.required ? '' : '?'}: ${bodyType}`);
+         }
+         /* The args other than the body, which are the ones given to a mutation hook */
+         const otherArgsRequired =
+            pathParams.length > 0 || queryParams.some((param) => param.required) || headerParams.some((param) => param.required);
+         const argsRequired = otherArgsRequired || !!body?.required;
+
+         lines.push(comment(`${method.toUpperCase()} ${path}${operation.summary ? `: ${operation.summary}` : ''}`).trimEnd());
+         if (cookieParams.length > 0) {
+            /* A browser can't set the Cookie header of a request, so the server has to get them from the cookies it set */
+            const message = `${method.toUpperCase()} ${path}: cookie parameters are not supported and are left out (${cookieParams
+               .map((param) => param.name)
+               .join(', ')})`;
+            options.onWarning?.(message);
+            lines.push(comment(message).trimEnd());
+         }
+         if (responseJSON) {
+            lines.push(`export type ${Name}Response = ${type_of(responseMedia.schema)};\n`);
+            lines.push(
+               `export const is${Name}Response = (data: unknown): data is ${Name}Response => ${check(responseMedia.schema, 'data')};\n`
+            );
+         }
+         if (argFields.length > 0) {
+            lines.push(`export type ${Name}Args = { ${argFields.join('; ')} };\n`);
+         }
+
+         /* The parts of the request that don't depend on the args */
+         const base = [`   method: '${method.toUpperCase()}',`, `   url: ${JSON.stringify(url)},`];
+         if (responseJSON) {
+            base.push(`   validate: is${Name}Response,`);
+         } else if (responseType === 'string') {
+            base.push(`   responseType: 'text',`);
+         } else if (responseType === 'Blob') {
+            base.push(`   responseType: 'blob',`);
+         }
+         lines.push(`const ${name}Base: APIRequest<${responseType}> = {\n${base.join('\n')}\n};\n`);
+
+         const request = [`   ...${name}Base,`];
+         if (pathParams.length > 0) {
+            const values = pathParams.map((param) => `${segment(param.name)}: String(args.path[${JSON.stringify(param.name)}])`);
+            request.push(`   pathParams: { ${values.join(', ')} },`);
+         }
+         if (queryParams.length > 0) {
+            request.push(`   params: toParams(args${argsRequired ? '' : '?'}.query),`);
+         }
+         if (headerParams.length > 0) {
+            request.push(`   headers: toHeaders(args${argsRequired ? '' : '?'}.headers),`);
+         }
+         if (bodyType) {
+            const value = `args${argsRequired ? '' : '?'}.body`;
+            request.push(
+               `   body: ${bodyType === 'FormData' || bodyType === 'URLSearchParams' || bodyType === 'Blob' ? value : `JSON.stringify(${value})`},`
+            );
+         }
+         const argsParam = argFields.length === 0 ? '' : argsRequired ? `args: ${Name}Args` : `args?: ${Name}Args`;
+         lines.push(`export const ${name} = (${argsParam}): APIRequest<${responseType}> => ({\n${request.join('\n')}\n});\n`);
+
+         const call = argFields.length === 0 ? `${name}()` : `${name}(args)`;
+         if (isQuery) {
+            const prefix = `buildQueryKey({ method: '${method.toUpperCase()}', url: ${JSON.stringify(url)} })`;
+            lines.push(
+               argFields.length === 0
+                  ? `export const ${name}Key = () => buildQueryKey(${call});\n`
+                  : `/* The query key for the given args, or the prefix of the keys for all of them */\nexport const ${name}Key = (args?: ${Name}Args) => (args ? buildQueryKey(${name}(args)) : ${prefix});\n`
+            );
+            lines.push(
+               `export const use${Name} = (${argsParam ? `${argsParam}, ` : ''}options?: QueryOptions<${responseType}>) => useAPI().useQuery<${responseType}>({ ...${call}, ...options });\n`
+            );
+         } else {
+            /* The body is the mutation's variables, so the hook only takes the other args */
+            const input = bodyType || 'void';
+            const hasOtherArgs = argFields.length > (bodyType ? 1 : 0);
+            const hookArgs = hasOtherArgs ? `args${otherArgsRequired ? '' : '?'}: Omit<${Name}Args, 'body'>, ` : '';
+            const build =
+               argFields.length === 0
+                  ? `() => ${name}()`
+                  : !bodyType
+                    ? `() => ${name}(args)`
+                    : hasOtherArgs
+                      ? `(body) => ${name}({ ...args, body })`
+                      : `(body) => ${name}({ body })`;
+            lines.push(
+               `export const use${Name} = (${hookArgs}options?: MutationOptions<${responseType}, ${input}>) => useAPI().useMutationQuery<${input}, ${responseType}>({ ...${name}Base, toRequest: ${build}, ...options });\n`
+            );
+         }
+      }
+   }
+
+   return lines.join('\n');
+};
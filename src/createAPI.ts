@@ -0,0 +1,134 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * createAPI.ts: This file contains the typed endpoint registry
+ */
+
+import { UseMutationResult, UseQueryResult } from '@tanstack/react-query';
+import useAPI from './useAPI';
+import { pathParamNames, pickPathParams } from './path';
+import { buildQueryKey } from './queryKey';
+import {
+   APIError,
+   APIMethod,
+   APIProgress,
+   APIRequest,
+   APIRequestBody,
+   APIResponse,
+   EndpointDefinition,
+   MutationOptions,
+   QueryOptions,
+} from './useAPI.types';
+
+/* The request builder, query key and hooks for an endpoint */
+export interface Endpoint<TInput, TOutput> {
+   definition: EndpointDefinition<TInput, TOutput>;
+   /* The request for an input, eg. to pass to useAPI().request */
+   request: (input: TInput) => APIRequest<TOutput>;
+   /* The query key for an input, or the prefix of the keys for every input */
+   key: (input?: TInput) => readonly unknown[];
+   useQuery: (input: TInput, options?: QueryOptions<TOutput>) => UseQueryResult<APIResponse<TOutput>, APIError>;
+   useMutation: (
+      options?: MutationOptions<TOutput, TInput>
+   ) => UseMutationResult<APIResponse<TOutput>, APIError, TInput> & { progress: APIProgress | null };
+}
+
+/* The endpoints for a set of definitions */
+export type Endpoints<TDefinitions> = {
+   [name in keyof TDefinitions]: TDefinitions[name] extends EndpointDefinition<infer TInput, infer TOutput>
+      ? Endpoint<TInput, TOutput>
+      : never;
+};
+
+/* The methods whose input is sent as params, as they have no body */
+const QUERY_METHODS: APIMethod[] = ['GET', 'HEAD', 'OPTIONS'];
+
+/* Check if a value can be sent as a body as it is */
+const is_body = (value: unknown): value is APIRequestBody => {
+   return (
+      typeof value === 'string' ||
+      value instanceof URLSearchParams ||
+      (typeof FormData !== 'undefined' && value instanceof FormData) ||
+      (typeof Blob !== 'undefined' && value instanceof Blob)
+   );
+};
+
+/*
+ * The default mapping from an endpoint's input to its request. The path params
+ * are taken from the input, and the rest of it is either the params (for a
+ * query) or the body (for a mutation)
+ */
+const default_request = <TInput, TOutput>(
+   definition: EndpointDefinition<TInput, TOutput>,
+   input: TInput
+): Pick<APIRequest<TOutput>, 'pathParams' | 'params' | 'body'> => {
+   const names = pathParamNames(definition.url);
+   const pathParams = names.length > 0 ? pickPathParams(definition.url, input) : undefined;
+   const isQuery = QUERY_METHODS.includes(definition.method);
+   if (input === undefined || input === null) {
+      return { pathParams };
+   }
+   if (is_body(input) || typeof input !== 'object' || Array.isArray(input)) {
+      return { pathParams, body: isQuery ? undefined : is_body(input) ? input : JSON.stringify(input) };
+   }
+
+   const rest = Object.entries(input).filter(([name, value]) => !names.includes(name) && value !== undefined);
+   if (!isQuery) {
+      return { pathParams, body: rest.length > 0 ? JSON.stringify(Object.fromEntries(rest)) : undefined };
+   }
+   const params = new URLSearchParams();
+   for (const [name, value] of rest) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+         params.append(name, String(item));
+      }
+   }
+   return { pathParams, params: rest.length > 0 ? params : undefined };
+};
+
+const create_endpoint = <TInput, TOutput>(definition: EndpointDefinition<TInput, TOutput>): Endpoint<TInput, TOutput> => {
+   const { toRequest, query, mutation, inputSchema, validateInput, ...requestOpts } = definition;
+   const mapInput = (input: TInput) => (toRequest ? toRequest(input) : default_request(definition, input));
+   /* The request carries the input, so it is validated even though it's sent as params rather than the body */
+   const request = (input: TInput): APIRequest<TOutput> => ({ ...requestOpts, inputSchema, validateInput, input, ...mapInput(input) });
+
+   return {
+      definition,
+      request,
+      key: (input) =>
+         input === undefined
+            ? buildQueryKey({ method: definition.method, url: definition.url, headers: definition.headers })
+            : buildQueryKey(request(input)),
+      useQuery: (input, options) => useAPI().useQuery<TOutput>({ ...request(input), ...query, ...options }),
+      useMutation: (options) =>
+         useAPI().useMutationQuery<TInput, TOutput>({
+            ...requestOpts,
+            inputSchema,
+            validateInput,
+            toRequest: mapInput,
+            ...mutation,
+            ...options,
+         }),
+   };
+};
+
+/*
+ * Declare an endpoint. The output is inferred from validate or schema, and the
+ * input from inputSchema, or they can be given explicitly:
+ *
+ *    const getItem = defineEndpoint<{ id: number }, Item>({ method: 'GET', url: '/api/items/:id/', validate: isItem });
+ */
+export const defineEndpoint = <TInput = void, TOutput = unknown>(definition: EndpointDefinition<TInput, TOutput>) => definition;
+
+/*
+ * Create the endpoints for a set of definitions, so each one can be used
+ * through its hooks, eg. api.endpoints.getItem.useQuery({ id: 5 })
+ */
+export const createAPI = <TDefinitions extends object>(definitions: TDefinitions): { endpoints: Endpoints<TDefinitions> } => {
+   const endpoints = Object.entries(definitions).map(([name, definition]) => [
+      name,
+      create_endpoint(definition as EndpointDefinition<unknown, unknown>),
+   ]);
+   return { endpoints: Object.fromEntries(endpoints) };
+};
@@ -7,6 +7,16 @@
  */
 import useAPI from './useAPI';
 import APIProvider from './APIProvider';
+import useHasPermission from './useHasPermission';
+import { authMiddleware, defaultClaimsMapper } from './APIContext';
 
-export { useAPI as default, APIProvider };
+export { useAPI as default, APIProvider, useHasPermission, defaultClaimsMapper, authMiddleware };
+export { createAPI, defineEndpoint } from './createAPI';
+export type { Endpoint, Endpoints } from './createAPI';
+export { buildPath } from './path';
+export type { PathParams } from './path';
+export { buildQueryKey } from './queryKey';
+export { isRetryableError } from './retry';
+export * from './RequireAuth';
+export * from './tokenStore';
 export * from './useAPI.types';
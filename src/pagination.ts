@@ -0,0 +1,72 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * pagination.ts: This file contains the helpers for requesting lists a page at a time
+ */
+
+import { APIRequest, PageStrategy } from './useAPI.types';
+
+/* The URL of the rel="next" link in an RFC 5988 Link header */
+const next_link = (header: string | null | undefined): string | undefined => {
+   for (const link of (header || '').split(/,(?=\s*<)/)) {
+      const match = link.match(/^\s*<([^>]*)>(.*)$/);
+      const rel = match?.[2].match(/;\s*rel\s*=\s*"?([^";]*)"?/i);
+      if (match && rel && rel[1].toLowerCase().split(/\s+/).includes('next')) {
+         return match[1];
+      }
+   }
+   return undefined;
+};
+
+/*
+ * Resolve a link against the URL of the response it came from. If that URL is
+ * relative too (ie. there is no base URL), so is the result
+ */
+const resolve_link = (link: string, base: string | undefined): string => {
+   if (!base) {
+      return link;
+   }
+   const origin = 'http://base.invalid';
+   const url = new URL(link, new URL(base, origin));
+   return url.origin === origin ? url.pathname + url.search + url.hash : url.href;
+};
+
+/* The page param of the first page */
+export const firstPageParam = (strategy: PageStrategy): number | string | null => (strategy.type === 'offset' ? 0 : null);
+
+/* Change a request to get the page with the given param */
+export const pageRequest = <T>(strategy: PageStrategy, request: APIRequest<T>, pageParam: number | string | null): APIRequest<T> => {
+   if (pageParam === null) {
+      return request;
+   }
+   if (strategy.type === 'link') {
+      /* The link has all the params the server needs */
+      return { ...request, url: String(pageParam), params: undefined };
+   }
+   const params = new URLSearchParams(request.params);
+   if (strategy.type === 'offset') {
+      params.set(strategy.offsetParam || 'offset', String(pageParam));
+      params.set(strategy.limitParam || 'limit', String(strategy.limit));
+   } else {
+      params.set(strategy.cursorParam || 'cursor', String(pageParam));
+   }
+   return { ...request, params };
+};
+
+/* The page param of the page after the given one, or undefined if it is the last */
+export const nextPageParam = (
+   strategy: PageStrategy,
+   pageParam: number | string | null,
+   page: { data: unknown; items: unknown[]; headers?: Headers; url?: string }
+): number | string | undefined => {
+   if (strategy.type === 'offset') {
+      return page.items.length < strategy.limit ? undefined : Number(pageParam) + strategy.limit;
+   }
+   if (strategy.type === 'cursor') {
+      return strategy.nextCursor(page.data) || undefined;
+   }
+   const link = next_link(page.headers?.get('Link'));
+   return link === undefined ? undefined : resolve_link(link, page.url);
+};
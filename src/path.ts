@@ -0,0 +1,62 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * path.ts: This file contains the helpers for URL templates, eg. '/api/items/:id/'
+ */
+
+import { APIError } from './useAPI.types';
+
+/* A :name segment of a template. The name must start with a letter, so ports (eg. :8080) aren't matched */
+const PATH_PARAM = /:([A-Za-z_]\w*)/g;
+
+/* A name, unless it is empty or a number (eg. a port) */
+type ParamName<Name extends string> = Name extends '' | `${number}${string}` ? never : Name;
+
+/* The names of the params in a URL template */
+type PathParamNames<U extends string> = U extends `${string}:${infer Rest}`
+   ? Rest extends `${infer Name}/${infer Tail}`
+      ? ParamName<Name> | PathParamNames<`/${Tail}`>
+      : ParamName<Rest>
+   : never;
+
+/* The path of a URL, without its query string or fragment */
+type PathPart<U extends string> = U extends `${infer Path}?${string}` ? PathPart<Path> : U extends `${infer Path}#${string}` ? Path : U;
+
+/* The values for the params in a URL template */
+export type PathParams<U extends string> = { [name in PathParamNames<PathPart<U>>]: string | number };
+
+/* Split a URL into its path and the rest (the query string and fragment), which never contains params */
+const split_path = (url: string): [string, string] => {
+   const end = url.search(/[?#]/);
+   return end < 0 ? [url, ''] : [url.slice(0, end), url.slice(end)];
+};
+
+/* The names of the params in a URL template */
+export const pathParamNames = (template: string): string[] => {
+   return [...split_path(template)[0].matchAll(PATH_PARAM)].map((match) => match[1]);
+};
+
+/* Take the values of a template's params from an object, eg. :id from { id: 5, ... } */
+export const pickPathParams = (template: string, data: unknown): { [name: string]: string | number } => {
+   const values = (data && typeof data === 'object' ? data : {}) as { [name: string]: string | number };
+   return Object.fromEntries(
+      pathParamNames(template)
+         .filter((name) => name in values)
+         .map((name) => [name, values[name]])
+   );
+};
+
+/* Fill in the params of a URL template, encoding each one. Throws an APIError if any are missing */
+export const buildPath = <U extends string>(template: U, params: PathParams<U>): string => {
+   const [path, rest] = split_path(template);
+   const built = path.replace(PATH_PARAM, (_segment, name: string) => {
+      const value = (params as { [name: string]: string | number | undefined | null })[name];
+      if (value === undefined || value === null) {
+         throw new APIError(`Missing path parameter: ${name}`, -1, { kind: 'validation', url: template });
+      }
+      return encodeURIComponent(String(value));
+   });
+   return built + rest;
+};
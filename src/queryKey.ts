@@ -0,0 +1,63 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * queryKey.ts: This file contains the helpers for building react-query keys
+ */
+
+import { APIRequest, QueryTarget } from './useAPI.types';
+
+/* The parts of a request that identify the data it gets */
+export type QueryKeyRequest = Pick<APIRequest<unknown>, 'method' | 'url' | 'pathParams' | 'params' | 'body' | 'headers' | 'queryKey'>;
+
+/* Collect the query parameters into an object, keeping every value of repeated ones */
+const params_object = (params: URLSearchParams) => {
+   const result: { [key: string]: string | string[] } = {};
+   for (const key of new Set(params.keys())) {
+      const values = params.getAll(key);
+      result[key] = values.length === 1 ? values[0] : values;
+   }
+   return result;
+};
+
+/*
+ * Build the react-query key for a request. Keys are hierarchical, so the key
+ * for just a method and URL is a prefix of the keys for every variation of
+ * it (ie. with any path params, params, body or headers), and can be used to
+ * invalidate them all. A URL template stays as the template, so the key for it
+ * is a prefix of the keys for every resource it matches:
+ *
+ *    [method, url, { path, params, body, headers }]
+ */
+export const buildQueryKey = (request: QueryKeyRequest): readonly unknown[] => {
+   if (request.queryKey) {
+      return request.queryKey;
+   }
+   const variant: {
+      path?: { [name: string]: string };
+      params?: { [key: string]: string | string[] };
+      body?: string;
+      headers?: { [key: string]: string };
+   } = {};
+   if (request.pathParams && Object.keys(request.pathParams).length > 0) {
+      /* Numbers and strings give the same URL, so they should give the same key */
+      variant.path = Object.fromEntries(Object.entries(request.pathParams).map(([name, value]) => [name, String(value)]));
+   }
+   const params = request.params && params_object(request.params);
+   if (params && Object.keys(params).length > 0) {
+      variant.params = params;
+   }
+   if (typeof request.body === 'string' || request.body instanceof URLSearchParams) {
+      variant.body = request.body.toString();
+   }
+   if (request.headers && Object.keys(request.headers).length > 0) {
+      variant.headers = request.headers;
+   }
+   return Object.keys(variant).length > 0 ? [request.method, request.url, variant] : [request.method, request.url];
+};
+
+/* The query key (prefix) for a request or key */
+export const targetQueryKey = (target: QueryTarget): readonly unknown[] => {
+   return Array.isArray(target) ? target : buildQueryKey(target as QueryKeyRequest);
+};
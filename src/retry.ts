@@ -0,0 +1,110 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * retry.ts: This file contains the helpers for retrying failed requests
+ */
+
+import { APIAbortError, APIError, APIMethod, APIRequest, APIResponse, RetryPolicy } from './useAPI.types';
+
+/* The methods that don't change anything, so they can always be repeated */
+const SAFE_METHODS: APIMethod[] = ['GET', 'HEAD', 'OPTIONS'];
+
+/* Network errors, timeouts from the server, rate limiting and server errors are worth another try */
+export const isRetryableError = (error: APIError) =>
+   error.kind === 'network' || error.code === 408 || error.code === 429 || error.code >= 500;
+
+type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'onRetry'>> & Pick<RetryPolicy, 'onRetry'>;
+
+const defaultRetryPolicy: ResolvedRetryPolicy = {
+   maxAttempts: 3,
+   minDelay: 500,
+   maxDelay: 30000,
+   jitter: true,
+   retryOn: isRetryableError,
+};
+
+/* Combine the provider's policy with a request's, returning undefined if the request shouldn't be retried */
+export const resolveRetryPolicy = (
+   providerPolicy: RetryPolicy | boolean | undefined,
+   requestPolicy: RetryPolicy | boolean | undefined
+): ResolvedRetryPolicy | undefined => {
+   if (requestPolicy === false || (!requestPolicy && !providerPolicy)) {
+      return undefined;
+   }
+   return {
+      ...defaultRetryPolicy,
+      ...(typeof providerPolicy === 'object' && providerPolicy),
+      ...(typeof requestPolicy === 'object' && requestPolicy),
+   };
+};
+
+/* The delay (in ms) asked for by a Retry-After header, which is either in seconds or a date */
+const retry_after = (headers?: Headers): number | undefined => {
+   const value = headers?.get('Retry-After');
+   if (!value) {
+      return undefined;
+   }
+   const seconds = Number(value);
+   if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+   }
+   const date = Date.parse(value);
+   return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/* How long to wait before the next attempt, after the given attempt failed with error */
+export const retryDelay = (policy: ResolvedRetryPolicy, attempt: number, error: APIError): number => {
+   const requested = retry_after(error.headers);
+   if (requested !== undefined) {
+      return Math.min(requested, policy.maxDelay);
+   }
+   const delay = Math.min(policy.minDelay * 2 ** (attempt - 1), policy.maxDelay);
+   return policy.jitter ? delay / 2 + (Math.random() * delay) / 2 : delay;
+};
+
+/* Wait for the given time, unless the signal aborts first */
+const sleep = (ms: number, signal?: AbortSignal) =>
+   new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+         reject(new APIAbortError());
+         return;
+      }
+      const onAbort = () => {
+         clearTimeout(timer);
+         reject(new APIAbortError());
+      };
+      const timer = setTimeout(() => {
+         signal?.removeEventListener('abort', onAbort);
+         resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+   });
+
+/*
+ * Run a request, retrying it as the policy allows. Requests that change data
+ * are only retried if they are marked idempotent
+ */
+export const withRetry = async <T>(
+   request: APIRequest<T>,
+   policy: ResolvedRetryPolicy,
+   run: () => Promise<APIResponse<T>>
+): Promise<APIResponse<T>> => {
+   const maxAttempts = SAFE_METHODS.includes(request.method) || request.idempotent ? Math.max(1, policy.maxAttempts) : 1;
+   for (let attempt = 1; ; attempt++) {
+      try {
+         return { ...(await run()), attempts: attempt };
+      } catch (error) {
+         if (error instanceof APIError) {
+            error.attempts = attempt;
+         }
+         if (!(error instanceof APIError) || attempt >= maxAttempts || !policy.retryOn(error, attempt)) {
+            throw error;
+         }
+         const delay = retryDelay(policy, attempt, error);
+         policy.onRetry?.(attempt, error, delay);
+         await sleep(delay, request.signal);
+      }
+   }
+};
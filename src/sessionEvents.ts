@@ -0,0 +1,39 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * sessionEvents.ts: This file contains the session event emitter
+ */
+
+import { SessionEvent, SessionEvents, SessionEventType } from './useAPI.types';
+
+/* Create an emitter for session events */
+export const createSessionEvents = (): SessionEvents => {
+   const listeners = new Map<SessionEventType | '*', Set<(event: SessionEvent) => void>>();
+
+   return {
+      on: (type, listener) => {
+         const set = listeners.get(type) || new Set();
+         listeners.set(type, set);
+         set.add(listener);
+         return () => {
+            set.delete(listener);
+         };
+      },
+      emit: (event) => {
+         for (const type of [event.type, '*'] as const) {
+            listeners.get(type)?.forEach((listener) => {
+               try {
+                  listener(event);
+               } catch (e) {
+                  /* A failing listener shouldn't stop the others, or the request that emitted the event, but is still reported */
+                  queueMicrotask(() => {
+                     throw e;
+                  });
+               }
+            });
+         }
+      },
+   };
+};
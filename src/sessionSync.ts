@@ -0,0 +1,193 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * sessionSync.ts: This file contains the cross-tab session synchronisation
+ */
+
+import { Mutex } from 'async-mutex';
+import { StoredTokens } from './useAPI.types';
+
+/* The messages sent between tabs */
+export type SessionSyncMessage = { type: 'tokens'; tokens: StoredTokens } | { type: 'logout' };
+
+export interface SessionSync {
+   /* Run fn while holding a lock that is exclusive across all tabs */
+   runExclusive: <T>(fn: () => Promise<T>) => Promise<T>;
+   /* Send a message to the other tabs */
+   publish: (message: SessionSyncMessage) => void;
+   /* Listen for messages from other tabs, returning a function to stop listening */
+   subscribe: (listener: (message: SessionSyncMessage) => void) => () => void;
+   /* Record that a refresh token has been exchanged for new tokens, so other tabs don't use it again */
+   markRefreshed: (refreshToken: string) => void;
+   /* Check if a tab has already exchanged the refresh token for new tokens */
+   wasRefreshed: (refreshToken: string) => boolean;
+}
+
+/* How long (in ms) a storage lock is held before it is considered abandoned */
+const STORAGE_LOCK_TIMEOUT = 10000;
+
+/* How often (in ms) to check a storage lock that is held by another tab */
+const STORAGE_LOCK_POLL = 50;
+
+/* The in-tab mutexes for each lock name */
+const mutexes = new Map<string, Mutex>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/* A short fingerprint of a token, so a tab can record which one it used without storing the token itself */
+const fingerprint = (token: string) => {
+   let hash = 0x811c9dc5;
+   for (let i = 0; i < token.length; i++) {
+      hash = Math.imul(hash ^ token.charCodeAt(i), 0x01000193);
+   }
+   return (hash >>> 0).toString(36) + token.length.toString(36);
+};
+
+const isSessionSyncMessage = (val: unknown): val is SessionSyncMessage => {
+   try {
+      const test = val as SessionSyncMessage;
+      return test.type === 'logout' || (test.type === 'tokens' && typeof test.tokens === 'object');
+   } catch {
+      return false;
+   }
+};
+
+/*
+ * Acquire a lock using localStorage, for browsers without Web Locks. This is
+ * best effort: if the lock can't be acquired before the timeout, the caller
+ * carries on without it. Returns a function to release the lock
+ */
+const acquireStorageLock = async (key: string): Promise<() => void> => {
+   const id = Math.random().toString(36).slice(2);
+   const deadline = Date.now() + STORAGE_LOCK_TIMEOUT;
+   const owner = () => {
+      try {
+         return JSON.parse(localStorage.getItem(key) || 'null') as { id: string; expires: number } | null;
+      } catch {
+         return null;
+      }
+   };
+
+   while (Date.now() < deadline) {
+      const current = owner();
+      if (!current || current.expires < Date.now()) {
+         localStorage.setItem(key, JSON.stringify({ id, expires: Date.now() + STORAGE_LOCK_TIMEOUT }));
+
+         /* Give any other tab that wrote at the same time a chance to overwrite it */
+         await sleep(STORAGE_LOCK_POLL);
+         if (owner()?.id === id) {
+            return () => {
+               if (owner()?.id === id) {
+                  localStorage.removeItem(key);
+               }
+            };
+         }
+      }
+      await sleep(STORAGE_LOCK_POLL);
+   }
+   return () => undefined;
+};
+
+/*
+ * Create the synchronisation for a session. Locks use Web Locks, or fall back to
+ * localStorage. Messages use BroadcastChannel, or fall back to storage events
+ * (for logouts only, so the tokens are never written to localStorage).
+ * If enabled is false, the lock only applies within this tab and no messages are sent
+ */
+export const createSessionSync = (name: string, enabled = true): SessionSync => {
+   const mutex = mutexes.get(name) || new Mutex();
+   mutexes.set(name, mutex);
+   const listeners = new Set<(message: SessionSyncMessage) => void>();
+   const messageKey = `${name}:message`;
+   const refreshedKey = `${name}:refreshed`;
+   const hasWindow = typeof window !== 'undefined';
+   const hasChannel = typeof BroadcastChannel !== 'undefined';
+   let channel: BroadcastChannel | null = null;
+
+   const dispatch = (message: unknown) => {
+      if (isSessionSyncMessage(message)) {
+         listeners.forEach((listener) => listener(message));
+      }
+   };
+
+   const onStorage = (event: StorageEvent) => {
+      if (event.key === messageKey && event.newValue) {
+         try {
+            dispatch(JSON.parse(event.newValue));
+         } catch {
+            /* Ignore */
+         }
+      }
+   };
+
+   return {
+      runExclusive: (fn) => {
+         return mutex.runExclusive(async () => {
+            if (!enabled || !hasWindow) {
+               return await fn();
+            }
+            if (navigator.locks) {
+               return await navigator.locks.request(`${name}:lock`, fn);
+            }
+            const release = await acquireStorageLock(`${name}:lock`);
+            try {
+               return await fn();
+            } finally {
+               release();
+            }
+         });
+      },
+      publish: (message) => {
+         if (!enabled || !hasWindow) {
+            return;
+         }
+         if (hasChannel) {
+            const sender = channel || new BroadcastChannel(name);
+            sender.postMessage(message);
+            if (sender !== channel) {
+               sender.close();
+            }
+         } else if (message.type !== 'tokens') {
+            /*
+             * The tokens aren't sent this way, as they would pass through localStorage.
+             * Stores shared between tabs pick up the new tokens themselves anyway.
+             * The nonce makes sure a storage event fires even if the message is the same as the last one
+             */
+            localStorage.setItem(messageKey, JSON.stringify({ ...message, nonce: Math.random() }));
+            localStorage.removeItem(messageKey);
+         }
+      },
+      subscribe: (listener) => {
+         if (!enabled || !hasWindow) {
+            return () => undefined;
+         }
+         listeners.add(listener);
+         if (listeners.size === 1) {
+            if (hasChannel) {
+               channel = new BroadcastChannel(name);
+               channel.onmessage = (event) => dispatch(event.data);
+            } else {
+               window.addEventListener('storage', onStorage);
+            }
+         }
+         return () => {
+            listeners.delete(listener);
+            if (listeners.size === 0) {
+               channel?.close();
+               channel = null;
+               window.removeEventListener('storage', onStorage);
+            }
+         };
+      },
+      markRefreshed: (refreshToken) => {
+         if (enabled && hasWindow) {
+            localStorage.setItem(refreshedKey, fingerprint(refreshToken));
+         }
+      },
+      wasRefreshed: (refreshToken) => {
+         return enabled && hasWindow && localStorage.getItem(refreshedKey) === fingerprint(refreshToken);
+      },
+   };
+};
@@ -0,0 +1,123 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * RequireAuth.test.tsx: This file contains the tests for RequireAuth, RequireScope and useHasPermission
+ */
+
+import { useEffect, useState } from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import jwtEncode from 'jwt-encode';
+import mockFetch from '@jbloggz/mock-fetch';
+import APIProvider from '../APIProvider';
+import { RequireAuth, RequireScope } from '../RequireAuth';
+import { createMemoryTokenStore } from '../tokenStore';
+import useAPI from '../useAPI';
+import useHasPermission from '../useHasPermission';
+
+describe('RequireAuth', () => {
+   const now = Math.floor(Date.now() / 1000);
+   const accessToken = jwtEncode(
+      { sub: 'joe@example.com', iat: now, exp: now + 300, api: 'rw', scope: 'items:read items:write' },
+      'secret'
+   );
+
+   beforeEach(() => {
+      vi.resetAllMocks();
+      mockFetch.reset();
+   });
+
+   it('renders the fallback until the user is authenticated', () => {
+      const tokenStore = createMemoryTokenStore();
+      const onUnauthenticated = vi.fn();
+      render(
+         <APIProvider tokenStore={tokenStore}>
+            <RequireAuth fallback={<p role="test">login</p>} onUnauthenticated={onUnauthenticated}>
+               <p role="test">content</p>
+            </RequireAuth>
+         </APIProvider>
+      );
+      expect(screen.getByRole('test').textContent).toBe('login');
+      expect(onUnauthenticated).toHaveBeenCalledTimes(1);
+
+      act(() => tokenStore.set({ access_token: accessToken, refresh_token: null, remember: false }));
+      expect(screen.getByRole('test').textContent).toBe('content');
+      expect(onUnauthenticated).toHaveBeenCalledTimes(1);
+   });
+
+   it('renders the forbidden content if the user lacks the scope', () => {
+      const tokenStore = createMemoryTokenStore();
+      tokenStore.set({ access_token: accessToken, refresh_token: null, remember: false });
+      const onForbidden = vi.fn();
+      render(
+         <APIProvider tokenStore={tokenStore}>
+            <RequireScope scope="items:read">
+               <p role="read">read</p>
+            </RequireScope>
+            <RequireScope scope={['items:read', 'items:delete']} forbidden={<p role="delete">forbidden</p>} onForbidden={onForbidden}>
+               <p role="delete">delete</p>
+            </RequireScope>
+         </APIProvider>
+      );
+      expect(screen.getByRole('read').textContent).toBe('read');
+      expect(screen.getByRole('delete').textContent).toBe('forbidden');
+      expect(onForbidden).toHaveBeenCalledTimes(1);
+   });
+
+   it('checks permissions with useHasPermission', () => {
+      const tokenStore = createMemoryTokenStore();
+      const TestComponent = () => {
+         const canWrite = useHasPermission('items:write');
+         const readwrite = useHasPermission((identity) => identity.readwrite);
+         return (
+            <p role="test">
+               {canWrite ? 'yes' : 'no'}:{readwrite ? 'yes' : 'no'}
+            </p>
+         );
+      };
+      render(
+         <APIProvider tokenStore={tokenStore}>
+            <TestComponent />
+         </APIProvider>
+      );
+      expect(screen.getByRole('test').textContent).toBe('no:no');
+      act(() => tokenStore.set({ access_token: accessToken, refresh_token: null, remember: false }));
+      expect(screen.getByRole('test').textContent).toBe('yes:yes');
+   });
+
+   it("doesn't call onUnauthenticated while the tokens are refreshed", async () => {
+      const expiredToken = jwtEncode({ sub: 'joe@example.com', iat: now - 600, exp: now - 300 }, 'secret');
+      const refreshToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 3000 }, 'secret');
+      const tokenStore = createMemoryTokenStore();
+      tokenStore.set({ access_token: expiredToken, refresh_token: refreshToken, remember: false });
+      mockFetch.setJSONResponseIf((req) => req.url === '/api/oauth2/token/', {
+         access_token: accessToken,
+         refresh_token: refreshToken,
+         token_type: 'bearer',
+      });
+      mockFetch.setJSONResponseIf((req) => req.url === '/foo/', { foo: 'success' });
+      const onUnauthenticated = vi.fn();
+
+      const TestComponent = () => {
+         const api = useAPI();
+         const [value, setValue] = useState('');
+         useEffect(() => {
+            api.request<{ foo: string }>({ method: 'GET', url: '/foo/' }).then((resp) => setValue(resp.data.foo));
+         }, []); // eslint-disable-line
+         return <p role="test">{value}</p>;
+      };
+      render(
+         <APIProvider tokenStore={tokenStore}>
+            <RequireAuth fallback={<p role="test">login</p>} onUnauthenticated={onUnauthenticated}>
+               <TestComponent />
+            </RequireAuth>
+         </APIProvider>
+      );
+      await waitFor(() => expect(screen.getByRole('test').textContent).toBe('success'));
+      expect(mockFetch.calls().map((call) => call.request.url)).toStrictEqual(['/api/oauth2/token/', '/foo/']);
+      expect(tokenStore.get().access_token).toBe(accessToken);
+      expect(onUnauthenticated).not.toHaveBeenCalled();
+   });
+});
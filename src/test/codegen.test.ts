@@ -0,0 +1,188 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * codegen.test.ts: This file contains the tests for the OpenAPI client generator
+ */
+
+import { describe, expect, it } from 'vitest';
+import ts from 'typescript';
+import path from 'path';
+import { generateClient, OpenAPIDocument } from '../codegen/openapi';
+import { buildQueryKey } from '../queryKey';
+
+const document: OpenAPIDocument = {
+   openapi: '3.0.3',
+   info: { title: 'Items API', version: '1.0.0' },
+   paths: {
+      '/api/items/': {
+         get: {
+            operationId: 'listItems',
+            parameters: [{ $ref: '#/components/parameters/Page' }],
+            responses: {
+               '200': { content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Item' } } } } },
+            },
+         },
+         post: {
+            operationId: 'create_item',
+            requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/Item' } } } },
+            responses: { '201': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Item' } } } } },
+         },
+      },
+      '/api/items/{item-id}/': {
+         parameters: [{ name: 'item-id', in: 'path', required: true, schema: { type: 'integer' } }],
+         get: {
+            operationId: 'getItem',
+            parameters: [
+               { name: 'X-Request-ID', in: 'header', schema: { type: 'string' } },
+               { name: 'session', in: 'cookie', schema: { type: 'string' } },
+            ],
+            responses: { '200': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Item' } } } } },
+         },
+         delete: { responses: { '204': {} } },
+      },
+   },
+   components: {
+      parameters: { Page: { name: 'page', in: 'query', schema: { type: 'integer' } } },
+      schemas: {
+         Item: {
+            type: 'object',
+            required: ['id', 'name'],
+            properties: {
+               id: { type: 'integer' },
+               name: { type: 'string' },
+               status: { type: 'string', enum: ['active', 'archived'] },
+               parent: { allOf: [{ $ref: '#/components/schemas/Item' }], nullable: true },
+            },
+         },
+      },
+   },
+};
+
+/* Compile the generated code and run it, with the hooks stubbed out */
+const load = (code: string) => {
+   const js = ts.transpileModule(code, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 } }).outputText;
+   const exports: { [name: string]: (...args: unknown[]) => unknown } = {};
+   const require = () => ({ default: () => ({}), buildQueryKey });
+   new Function('require', 'exports', js)(require, exports);
+   return exports;
+};
+
+/* Type check the generated code against the library, returning the errors */
+const typeCheck = (code: string): string[] => {
+   const file = path.resolve(__dirname, 'client.generated.ts');
+   const options: ts.CompilerOptions = {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      jsx: ts.JsxEmit.ReactJSX,
+      strict: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      noEmit: true,
+   };
+   const host = ts.createCompilerHost(options);
+   const { getSourceFile, fileExists, readFile } = host;
+   host.getSourceFile = (name, version, ...rest) =>
+      name === file ? ts.createSourceFile(name, code, version) : getSourceFile(name, version, ...rest);
+   host.fileExists = (name) => name === file || fileExists(name);
+   host.readFile = (name) => (name === file ? code : readFile(name));
+   const program = ts.createProgram([file], options, host);
+   return ts.getPreEmitDiagnostics(program).map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+};
+
+/* Code that uses the generated client for the document, as an app would */
+const usage = `
+export const useItems = () => {
+   const items = useListItems({ query: { page: 2 } });
+   const name: string | undefined = items.data?.data[0]?.name;
+   const item = useGetItem({ path: { 'item-id': 5 }, headers: { 'X-Request-ID': 'abc' } });
+   const id: number | undefined = item.data?.data.id;
+   const create = useCreateItem({ invalidates: [listItemsKey()] });
+   create.mutate({ id: 1, name: 'foo' });
+   const remove = useDeleteApiItemsItemId({ path: { 'item-id': 5 } });
+   remove.mutate();
+   return [name, id, getItemKey({ path: { 'item-id': 5 } })];
+};
+`;
+
+describe('generateClient', () => {
+   it('generates types, validators, requests, keys and hooks', () => {
+      const code = generateClient(document, { source: 'openapi.json' });
+      expect(code).toContain('generated by use-api-codegen from openapi.json (Items API 1.0.0)');
+      expect(code).toContain(`export type Item = { id: number; name: string; status?: "active" | "archived"; parent?: (Item) | null };`);
+      expect(code).toContain('export const useListItems = (args?: ListItemsArgs, options?: QueryOptions<ListItemsResponse>)');
+      expect(code).toContain('export const useCreateItem = (options?: MutationOptions<CreateItemResponse, Item>)');
+      expect(code).toContain("export const useDeleteApiItemsItemId = (args: Omit<DeleteApiItemsItemIdArgs, 'body'>");
+      expect(code).toContain('export type GetItemArgs = { path: { "item-id": number }; headers?: { "X-Request-ID"?: string } };');
+      expect(code).toContain('cookie parameters are not supported and are left out (session)');
+      expect(code).not.toMatch(/ as \w+Args/);
+   });
+
+   it('generates a client that type checks against the library', () => {
+      const code = generateClient(document, { importPath: '../index' });
+      expect(typeCheck(code + usage)).toStrictEqual([]);
+      expect(typeCheck(code + usage + `useGetItem({ path: { 'item-id': 'five' } });\n`).length).toBe(1);
+   }, 60000);
+
+   it('gives names that would collide a suffix and warns about what it leaves out', () => {
+      const warnings: string[] = [];
+      const code = generateClient(
+         {
+            openapi: '3.0.3',
+            paths: {
+               '/api/fields/': {
+                  get: {
+                     operationId: 'getFields',
+                     parameters: [{ name: 'session', in: 'cookie', schema: { type: 'string' } }],
+                     responses: { '200': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Fields' } } } } },
+                  },
+               },
+            },
+            components: { schemas: { Fields: { type: 'object' }, GetFieldsResponse: { type: 'string' } } },
+         },
+         { onWarning: (message) => warnings.push(message) }
+      );
+      expect(code).toContain('export type Fields_ = {');
+      expect(code).toContain('export type GetFieldsResponse = string;');
+      expect(code).toContain('export type GetFields_Response = Fields_;');
+      expect(code).toContain('export const getFields_ = (): APIRequest<GetFields_Response>');
+      expect(warnings).toStrictEqual(['GET /api/fields/: cookie parameters are not supported and are left out (session)']);
+   });
+
+   it('generates working validators and requests', () => {
+      const client = load(generateClient(document));
+      expect(client.isItem({ id: 1, name: 'foo', parent: null })).toBe(true);
+      expect(client.isItem({ id: 1, name: 'foo', parent: { id: 2, name: 'bar', status: 'active' } })).toBe(true);
+      expect(client.isItem({ id: 1.5, name: 'foo' })).toBe(false);
+      expect(client.isItem({ id: 1, name: 'foo', status: 'deleted' })).toBe(false);
+      expect(client.isItem({ id: 1, name: 'foo', parent: { id: 'two' } })).toBe(false);
+      expect(client.isListItemsResponse([{ id: 1, name: 'foo' }])).toBe(true);
+
+      const request = client.getItem({ path: { 'item-id': 5 } }) as { [key: string]: unknown };
+      expect(request.method).toBe('GET');
+      expect(request.url).toBe('/api/items/:itemId/');
+      expect(request.pathParams).toStrictEqual({ itemId: '5' });
+      expect(request.validate).toBe(client.isGetItemResponse);
+      const list = client.listItems({ query: { page: 2 } }) as { params: URLSearchParams };
+      expect(list.params.toString()).toBe('page=2');
+      expect(client.createItem({ body: { id: 1, name: 'foo' } })).toHaveProperty('body', '{"id":1,"name":"foo"}');
+      expect(client.getItem({ path: { 'item-id': 5 }, headers: { 'X-Request-ID': 'abc' } })).toHaveProperty('headers', {
+         'X-Request-ID': 'abc',
+      });
+
+      expect(client.getItemKey({ path: { 'item-id': 5 } })).toStrictEqual(['GET', '/api/items/:itemId/', { path: { itemId: '5' } }]);
+      expect(client.getItemKey()).toStrictEqual(['GET', '/api/items/:itemId/']);
+   });
+
+   it('rejects documents it cannot generate a client for', () => {
+      expect(() => generateClient({ openapi: '2.0' })).toThrowError('Unsupported OpenAPI version');
+      expect(() =>
+         generateClient({
+            openapi: '3.1.0',
+            paths: { '/': { get: { responses: { '200': { $ref: 'other.yaml#/Response' } } } } },
+         })
+      ).toThrowError('only local references');
+   });
+});
@@ -0,0 +1,129 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * createAPI.test.tsx: This file contains the tests for defineEndpoint and createAPI
+ */
+
+import { useEffect } from 'react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import jwtEncode from 'jwt-encode';
+import mockFetch from '@jbloggz/mock-fetch';
+import APIProvider from '../APIProvider';
+import { createAPI, defineEndpoint } from '../createAPI';
+import { isAPIError } from '../useAPI.types';
+
+interface Item {
+   id: number;
+   name: string;
+}
+
+const isItem = (data: unknown): data is Item => typeof (data as Item)?.id === 'number' && typeof (data as Item)?.name === 'string';
+
+const api = createAPI({
+   listItems: defineEndpoint<{ tag?: string[]; page?: number }, Item[]>({
+      method: 'GET',
+      url: '/api/items/',
+      validateList: isItem,
+   }),
+   getItem: defineEndpoint<{ id: number }, Item>({ method: 'GET', url: '/api/items/:id/', validate: isItem, query: { runOnce: true } }),
+   updateItem: defineEndpoint<Item, Item>({
+      method: 'PUT',
+      url: '/api/items/:id/',
+      validate: isItem,
+      mutation: { invalidates: [['GET', '/api/items/']] },
+   }),
+   searchItems: defineEndpoint<{ q: string }, Item[]>({
+      method: 'GET',
+      url: '/api/search/',
+      validateList: isItem,
+      validateInput: (input) => typeof (input as { q?: unknown })?.q === 'string' && (input as { q: string }).q.length > 0,
+      query: { runOnce: true },
+   }),
+   ping: defineEndpoint({
+      method: 'GET',
+      url: '/api/ping/',
+      validate: (data): data is { pong: boolean } => typeof (data as { pong: unknown })?.pong === 'boolean',
+   }),
+});
+
+describe('createAPI', () => {
+   const now = Math.floor(Date.now() / 1000);
+   const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+
+   beforeEach(() => {
+      mockFetch.reset();
+      localStorage.setItem('access_token', accessToken);
+   });
+
+   it('builds requests and query keys from the input', () => {
+      const request = api.endpoints.getItem.request({ id: 5 });
+      expect(request.url).toBe('/api/items/:id/');
+      expect(request.pathParams).toStrictEqual({ id: 5 });
+      expect(request.params).toBe(undefined);
+      expect(api.endpoints.listItems.request({ tag: ['a', 'b'], page: 2 }).params?.toString()).toBe('tag=a&tag=b&page=2');
+      expect(api.endpoints.updateItem.request({ id: 5, name: 'foo' }).body).toBe('{"name":"foo"}');
+      expect(api.endpoints.getItem.key({ id: 5 })).toStrictEqual(['GET', '/api/items/:id/', { path: { id: '5' } }]);
+      expect(api.endpoints.getItem.key()).toStrictEqual(['GET', '/api/items/:id/']);
+   });
+
+   it('queries an endpoint with inferred types', async () => {
+      mockFetch.setJSONResponseIf((req) => req.url === '/api/items/5/', { id: 5, name: 'foo' });
+      mockFetch.setJSONResponseIf((req) => req.url === '/api/ping/', { pong: true });
+      const TestComponent = () => {
+         const item = api.endpoints.getItem.useQuery({ id: 5 });
+         const ping = api.endpoints.ping.useQuery();
+         const name: string | undefined = item.data?.data.name;
+         const pong: boolean | undefined = ping.data?.data.pong;
+         return <p>{name && pong ? `${name}:${pong}` : ''}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('foo:true'));
+   });
+
+   it('mutates an endpoint and invalidates its queries', async () => {
+      mockFetch.setJSONResponseIf((req) => req.method === 'GET', [{ id: 5, name: 'foo' }]);
+      mockFetch.setJSONResponseIf((req) => req.method === 'PUT', { id: 5, name: 'bar' });
+      const TestComponent = () => {
+         const list = api.endpoints.listItems.useQuery({});
+         const update = api.endpoints.updateItem.useMutation();
+         useEffect(() => {
+            if (list.isSuccess && update.isIdle) {
+               update.mutate({ id: 5, name: 'bar' });
+            }
+         }, [list.isSuccess]); // eslint-disable-line
+         return <p>{update.data?.data.name}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('bar'));
+      const put = mockFetch.calls().find((call) => call.request.method === 'PUT');
+      expect(put?.request.url).toBe('/api/items/5/');
+      expect(put?.request.body).toBe('{"name":"bar"}');
+      await waitFor(() => expect(mockFetch.calls().filter((call) => call.request.method === 'GET').length).toBe(2));
+   });
+
+   it('validates the input of a query before sending it', async () => {
+      mockFetch.setJSONResponse([]);
+      const TestComponent = () => {
+         const search = api.endpoints.searchItems.useQuery({ q: '' });
+         return <p>{search.isError ? `${isAPIError(search.error, 'validation')}:${search.error.message}` : ''}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('true:Request validation failed'));
+      expect(mockFetch.calls().length).toBe(0);
+   });
+});
@@ -0,0 +1,58 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * pagination.test.ts: This file contains the tests for the page strategies
+ */
+
+import { describe, expect, it } from 'vitest';
+import { firstPageParam, nextPageParam, pageRequest } from '../pagination';
+
+describe('pagination', () => {
+   it('pages by offset and limit until a short page', () => {
+      const strategy = { type: 'offset', limit: 2, offsetParam: 'skip' } as const;
+      expect(firstPageParam(strategy)).toBe(0);
+      const request = pageRequest(strategy, { method: 'GET', url: '/api/items/', params: new URLSearchParams('q=foo') }, 4);
+      expect(request.params?.toString()).toBe('q=foo&skip=4&limit=2');
+      expect(nextPageParam(strategy, 4, { data: [1, 2], items: [1, 2] })).toBe(6);
+      expect(nextPageParam(strategy, 6, { data: [3], items: [3] })).toBe(undefined);
+   });
+
+   it('pages by the cursor in the body', () => {
+      const strategy = { type: 'cursor', nextCursor: (data: unknown) => (data as { next: string | null }).next } as const;
+      expect(firstPageParam(strategy)).toBe(null);
+      expect(pageRequest(strategy, { method: 'GET', url: '/api/items/' }, null).params).toBe(undefined);
+      expect(pageRequest(strategy, { method: 'GET', url: '/api/items/' }, 'abc').params?.toString()).toBe('cursor=abc');
+      expect(nextPageParam(strategy, null, { data: { next: 'def' }, items: [] })).toBe('def');
+      expect(nextPageParam(strategy, 'def', { data: { next: null }, items: [] })).toBe(undefined);
+   });
+
+   it('pages by the next link in the Link header', () => {
+      const strategy = { type: 'link' } as const;
+      const headers = new Headers({
+         Link: '<https://example.com/api/items/?page=1>; rel="prev first", <https://example.com/api/items/?page=3>; rel="next"',
+      });
+      const next = nextPageParam(strategy, null, { data: [], items: [], headers });
+      expect(next).toBe('https://example.com/api/items/?page=3');
+      const request = pageRequest(strategy, { method: 'GET', url: '/api/items/', params: new URLSearchParams('page=2') }, String(next));
+      expect(request.url).toBe('https://example.com/api/items/?page=3');
+      expect(request.params).toBe(undefined);
+      expect(nextPageParam(strategy, next || null, { data: [], items: [], headers: new Headers() })).toBe(undefined);
+   });
+
+   it('resolves a relative next link against the URL of the page', () => {
+      const strategy = { type: 'link' } as const;
+      const page = (link: string, url?: string) => ({ data: [], items: [], headers: new Headers({ Link: `<${link}>; rel="next"` }), url });
+      expect(nextPageParam(strategy, null, page('?page=2', 'https://example.com/api/v2/items/'))).toBe(
+         'https://example.com/api/v2/items/?page=2'
+      );
+      expect(nextPageParam(strategy, null, page('../users/?page=2', 'https://example.com/api/v2/items/'))).toBe(
+         'https://example.com/api/v2/users/?page=2'
+      );
+      expect(nextPageParam(strategy, null, page('?page=2', '/api/items/?page=1'))).toBe('/api/items/?page=2');
+      expect(nextPageParam(strategy, null, page('https://cdn.example.com/items/?page=2', '/api/items/'))).toBe(
+         'https://cdn.example.com/items/?page=2'
+      );
+   });
+});
@@ -0,0 +1,40 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * path.test.ts: This file contains the tests for the URL template helpers
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildPath, pathParamNames, pickPathParams } from '../path';
+import { APIError } from '../useAPI.types';
+
+describe('path', () => {
+   it('fills in and encodes the params of a template', () => {
+      expect(buildPath('/api/items/:id/', { id: 5 })).toBe('/api/items/5/');
+      expect(buildPath('/api/users/:user/files/:name', { user: 'joe@example.com', name: 'a b/c' })).toBe(
+         '/api/users/joe%40example.com/files/a%20b%2Fc'
+      );
+   });
+
+   it("doesn't treat ports as params", () => {
+      expect(pathParamNames('http://localhost:8080/api/items/:id/')).toStrictEqual(['id']);
+      expect(buildPath('http://localhost:8080/api/items/:id/', { id: 'x' })).toBe('http://localhost:8080/api/items/x/');
+   });
+
+   it("doesn't treat colons in the query string as params", () => {
+      expect(pathParamNames('/api/items/:id/?at=10:30&q=:name#:frag')).toStrictEqual(['id']);
+      expect(buildPath('/api/items/:id/?q=:name', { id: 5 })).toBe('/api/items/5/?q=:name');
+   });
+
+   it('throws an APIError for a missing param', () => {
+      expect(() => buildPath('/api/items/:id/', {} as { id: string })).toThrowError(APIError);
+      expect(() => buildPath('/api/items/:id/', {} as { id: string })).toThrowError('Missing path parameter: id');
+   });
+
+   it('picks the params of a template from an object', () => {
+      expect(pickPathParams('/api/items/:id/', { id: 5, name: 'foo' })).toStrictEqual({ id: 5 });
+      expect(pickPathParams('/api/items/:id/', 'foo')).toStrictEqual({});
+   });
+});
@@ -0,0 +1,54 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * queryKey.test.ts: This file contains the tests for buildQueryKey
+ */
+
+import { describe, expect, it } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import { buildQueryKey } from '../queryKey';
+
+describe('buildQueryKey', () => {
+   it('only has the method and URL for a plain request', () => {
+      expect(buildQueryKey({ method: 'GET', url: '/api/items/' })).toStrictEqual(['GET', '/api/items/']);
+      expect(buildQueryKey({ method: 'GET', url: '/api/items/', params: new URLSearchParams(), headers: {} })).toStrictEqual([
+         'GET',
+         '/api/items/',
+      ]);
+   });
+
+   it('includes the params, body and headers that vary the request', () => {
+      const key = buildQueryKey({
+         method: 'POST',
+         url: '/api/search/',
+         params: new URLSearchParams('tag=a&tag=b&page=2'),
+         body: '{"q":"foo"}',
+         headers: { 'Accept-Language': 'en-AU' },
+      });
+      expect(key).toStrictEqual([
+         'POST',
+         '/api/search/',
+         { params: { tag: ['a', 'b'], page: '2' }, body: '{"q":"foo"}', headers: { 'Accept-Language': 'en-AU' } },
+      ]);
+   });
+
+   it('uses the explicit key when one is given', () => {
+      expect(buildQueryKey({ method: 'GET', url: '/api/items/', queryKey: ['items', 'list'] })).toStrictEqual(['items', 'list']);
+   });
+
+   it('builds keys that can be invalidated by prefix', async () => {
+      const client = new QueryClient();
+      client.setQueryData(buildQueryKey({ method: 'GET', url: '/api/items/', params: new URLSearchParams('page=1') }), 1);
+      client.setQueryData(buildQueryKey({ method: 'GET', url: '/api/items/', params: new URLSearchParams('page=2') }), 2);
+      client.setQueryData(buildQueryKey({ method: 'GET', url: '/api/users/' }), 3);
+      await client.invalidateQueries({ queryKey: buildQueryKey({ method: 'GET', url: '/api/items/' }) });
+      const invalidated = client
+         .getQueryCache()
+         .getAll()
+         .filter((query) => query.state.isInvalidated)
+         .map((query) => query.state.data);
+      expect(invalidated).toStrictEqual([1, 2]);
+   });
+});
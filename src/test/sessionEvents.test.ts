@@ -0,0 +1,52 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * sessionEvents.test.ts: This file contains the tests for the session event emitter
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createSessionEvents } from '../sessionEvents';
+import { SessionEvent } from '../useAPI.types';
+
+describe('sessionEvents', () => {
+   const event: SessionEvent = { type: 'logout', tokenData: { sub: 'joe@example.com', iat: 0, exp: 0, api: '' } };
+
+   it('calls the listeners for the event type and for every event', () => {
+      const events = createSessionEvents();
+      const logout = vi.fn();
+      const login = vi.fn();
+      const all = vi.fn();
+      events.on('logout', logout);
+      events.on('login', login);
+      const off = events.on('*', all);
+      events.emit(event);
+      off();
+      events.emit(event);
+      expect(logout).toHaveBeenCalledTimes(2);
+      expect(logout.mock.calls[0][0]).toBe(event);
+      expect(login).not.toHaveBeenCalled();
+      expect(all).toHaveBeenCalledTimes(1);
+   });
+
+   it('rethrows listener errors asynchronously without logging them or stopping the other listeners', () => {
+      const events = createSessionEvents();
+      const error = new Error('listener failed');
+      const listener = vi.fn();
+      const microtasks: (() => void)[] = [];
+      const queueMicrotask = vi.spyOn(globalThis, 'queueMicrotask').mockImplementation((task) => microtasks.push(task));
+      const consoleError = vi.spyOn(console, 'error');
+      events.on('logout', () => {
+         throw error;
+      });
+      events.on('logout', listener);
+      expect(() => events.emit(event)).not.toThrow();
+      queueMicrotask.mockRestore();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(microtasks.length).toBe(1);
+      expect(microtasks[0]).toThrow(error);
+      expect(consoleError).not.toHaveBeenCalled();
+      consoleError.mockRestore();
+   });
+});
@@ -0,0 +1,193 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * sessionSync.test.tsx: This file contains the tests for the cross-tab session synchronisation
+ */
+
+import { useEffect, useState } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import jwtEncode from 'jwt-encode';
+import mockFetch from '@jbloggz/mock-fetch';
+import useAPI from '../useAPI';
+import APIProvider from '../APIProvider';
+import { createSessionSync } from '../sessionSync';
+import { createLocalStorageTokenStore, createMemoryTokenStore } from '../tokenStore';
+import { TokenStore } from '../useAPI.types';
+
+describe('sessionSync', () => {
+   const now = Math.floor(Date.now() / 1000);
+   const expiredToken = jwtEncode({ sub: 'sync@example.com', iat: now - 600, exp: now - 300 }, 'secret');
+   const accessToken = jwtEncode({ sub: 'sync@example.com', iat: now, exp: now + 300 }, 'secret');
+
+   beforeEach(() => {
+      mockFetch.reset();
+   });
+
+   afterEach(() => {
+      vi.useRealTimers();
+   });
+
+   /* A tab with its own token store that makes a request as soon as it is rendered */
+   const renderTab = (name: string, tokenStore: TokenStore) => {
+      const TestComponent = () => {
+         const api = useAPI();
+         const [value, setValue] = useState('');
+         useEffect(() => {
+            api.request<{ foo: string }>({ method: 'GET', url: '/foo/sync/' }).then(
+               (resp) => setValue(resp.data.foo),
+               (error) => setValue(error.message)
+            );
+         }, []); // eslint-disable-line
+         return <p role={name}>{value}</p>;
+      };
+      render(
+         <APIProvider tokenStore={tokenStore}>
+            <TestComponent />
+         </APIProvider>
+      );
+   };
+
+   it('only lets one tab use a refresh token', async () => {
+      const refreshToken = jwtEncode({ sub: 'sync@example.com', iat: now, exp: now + 3000, jti: 'once' }, 'secret');
+      const newRefreshToken = jwtEncode({ sub: 'sync@example.com', iat: now, exp: now + 3000, jti: 'rotated' }, 'secret');
+      const tabs = [createMemoryTokenStore(), createMemoryTokenStore()];
+      tabs.forEach((tab) => tab.set({ access_token: expiredToken, refresh_token: refreshToken, remember: false }));
+      mockFetch.setJSONResponseIf((req) => req.url === '/api/oauth2/token/', {
+         access_token: accessToken,
+         refresh_token: newRefreshToken,
+         token_type: 'bearer',
+      });
+      mockFetch.setJSONResponseIf((req) => req.headers.Authorization === 'Bearer ' + accessToken, { foo: 'success' });
+
+      /* Deliver the messages late, so the second tab gets the lock before it hears about the new tokens */
+      const postMessage = BroadcastChannel.prototype.postMessage;
+      const delayed = vi.spyOn(BroadcastChannel.prototype, 'postMessage').mockImplementation(function (this: BroadcastChannel, message) {
+         const sender = new BroadcastChannel(this.name);
+         setTimeout(() => {
+            postMessage.call(sender, message);
+            sender.close();
+         }, 300);
+      });
+
+      renderTab('first', tabs[0]);
+      renderTab('second', tabs[1]);
+      await waitFor(() => expect(screen.getByRole('first').textContent).toBe('success'));
+      await waitFor(() => expect(screen.getByRole('second').textContent).toBe('success'));
+      expect(mockFetch.calls().filter((call) => call.request.url === '/api/oauth2/token/').length).toBe(1);
+      expect(tabs[0].get().refresh_token).toBe(newRefreshToken);
+      expect(tabs[1].get().refresh_token).toBe(newRefreshToken);
+      delayed.mockRestore();
+   });
+
+   it('logs out the other tabs when a refresh fails', async () => {
+      const refreshToken = jwtEncode({ sub: 'sync@example.com', iat: now, exp: now + 3000, jti: 'revoked' }, 'secret');
+      const failingTab = createMemoryTokenStore();
+      const otherTab = createMemoryTokenStore();
+      failingTab.set({ access_token: expiredToken, refresh_token: refreshToken, remember: false });
+      otherTab.set({ access_token: accessToken, refresh_token: refreshToken, remember: false });
+      mockFetch.setResponse('', 401);
+
+      const TestComponent = () => {
+         const api = useAPI();
+         return <p role="other">{api.authenticated ? 'logged in' : 'logged out'}</p>;
+      };
+      render(
+         <APIProvider tokenStore={otherTab}>
+            <TestComponent />
+         </APIProvider>
+      );
+      expect(screen.getByRole('other').textContent).toBe('logged in');
+      renderTab('failing', failingTab);
+      await waitFor(() => expect(screen.getByRole('failing').textContent).toBe('Session expired'));
+      await waitFor(() => expect(screen.getByRole('other').textContent).toBe('logged out'));
+      expect(otherTab.get().refresh_token).toBe(null);
+   });
+
+   it('waits for a storage lock held by another tab', async () => {
+      const sync = createSessionSync('held-lock');
+      localStorage.setItem('held-lock:lock', JSON.stringify({ id: 'other', expires: Date.now() + 10000 }));
+      const fn = vi.fn(async () => 'done');
+      const result = sync.runExclusive(fn);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(fn).not.toHaveBeenCalled();
+
+      localStorage.removeItem('held-lock:lock');
+      expect(await result).toBe('done');
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(localStorage.getItem('held-lock:lock')).toBe(null);
+   });
+
+   it('carries on without the storage lock if another tab never releases it', async () => {
+      vi.useFakeTimers();
+      const sync = createSessionSync('stuck-lock');
+      const lock = JSON.stringify({ id: 'other', expires: Date.now() + 60000 });
+      localStorage.setItem('stuck-lock:lock', lock);
+      const fn = vi.fn(async () => 'done');
+      const result = sync.runExclusive(fn);
+      await vi.advanceTimersByTimeAsync(9000);
+      expect(fn).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1100);
+      expect(await result).toBe('done');
+      expect(localStorage.getItem('stuck-lock:lock')).toBe(lock);
+      localStorage.removeItem('stuck-lock:lock');
+   });
+
+   it('keeps the tokens of clients with different token stores apart', async () => {
+      const refreshToken = jwtEncode({ sub: 'sync@example.com', iat: now, exp: now + 3000 }, 'secret');
+      mockFetch.setJSONResponseIf((req) => req.url === '/api/oauth2/token/', {
+         access_token: accessToken,
+         refresh_token: refreshToken,
+         token_type: 'bearer',
+      });
+      mockFetch.setResponseIf((req) => req.url === '/api/oauth2/logout/', '');
+      const first = createLocalStorageTokenStore({ prefix: 'a_' });
+      const second = createLocalStorageTokenStore({ prefix: 'b_' });
+      const apis: { [name: string]: ReturnType<typeof useAPI> } = {};
+      const TestComponent = ({ name }: { name: string }) => {
+         apis[name] = useAPI();
+         return <p role={name}>{apis[name].authenticated ? 'logged in' : 'logged out'}</p>;
+      };
+      render(
+         <>
+            <APIProvider tokenStore={first}>
+               <TestComponent name="first" />
+            </APIProvider>
+            <APIProvider tokenStore={second}>
+               <TestComponent name="second" />
+            </APIProvider>
+         </>
+      );
+
+      await act(() => apis.first.login('sync@example.com', 'foobar', true));
+      await waitFor(() => expect(screen.getByRole('first').textContent).toBe('logged in'));
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(localStorage.getItem('b_access_token')).toBe(null);
+      expect(screen.getByRole('second').textContent).toBe('logged out');
+
+      second.set({ access_token: accessToken, refresh_token: refreshToken, remember: true });
+      await act(() => apis.first.logout());
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(localStorage.getItem('a_access_token')).toBe(null);
+      expect(localStorage.getItem('b_access_token')).toBe(accessToken);
+      expect(screen.getByRole('second').textContent).toBe('logged in');
+      second.clear();
+   });
+
+   it('never writes the tokens to localStorage without BroadcastChannel', () => {
+      vi.stubGlobal('BroadcastChannel', undefined);
+      const setItem = vi.spyOn(Storage.prototype, 'setItem');
+      const sync = createSessionSync('no-channel');
+      sync.publish({ type: 'tokens', tokens: { access_token: accessToken, refresh_token: 'secret-refresh', remember: true } });
+      sync.publish({ type: 'logout' });
+      const written = setItem.mock.calls.map((call) => call[1]).join();
+      expect(written).not.toContain(accessToken);
+      expect(written).not.toContain('secret-refresh');
+      expect(setItem.mock.calls.filter((call) => call[0] === 'no-channel:message').length).toBe(1);
+      setItem.mockRestore();
+      vi.unstubAllGlobals();
+   });
+});
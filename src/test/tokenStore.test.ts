@@ -0,0 +1,98 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * tokenStore.test.ts: This file contains the tests for the TokenStore implementations
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+   createBrowserTokenStore,
+   createCookieTokenStore,
+   createLocalStorageTokenStore,
+   createMemoryTokenStore,
+   createSessionStorageTokenStore,
+} from '../tokenStore';
+
+describe('tokenStore', () => {
+   beforeEach(() => {
+      localStorage.clear();
+      sessionStorage.clear();
+   });
+
+   it('keeps tokens in localStorage with a prefix', () => {
+      const store = createLocalStorageTokenStore({ prefix: 'app1_' });
+      store.set({ access_token: 'access', refresh_token: 'refresh', remember: true });
+      expect(localStorage.getItem('app1_access_token')).toBe('access');
+      expect(localStorage.getItem('app1_refresh_token')).toBe('refresh');
+      expect(localStorage.getItem('access_token')).toBe(null);
+      expect(store.get()).toStrictEqual({ access_token: 'access', refresh_token: 'refresh', remember: true });
+      store.clear();
+      expect(localStorage.getItem('app1_access_token')).toBe(null);
+   });
+
+   it('keeps tokens in sessionStorage', () => {
+      const store = createSessionStorageTokenStore();
+      store.set({ access_token: 'access', refresh_token: 'refresh', remember: false });
+      expect(sessionStorage.getItem('access_token')).toBe('access');
+      expect(store.get().remember).toBe(false);
+   });
+
+   it('picks the browser storage based on remember', () => {
+      const store = createBrowserTokenStore();
+      store.set({ access_token: 'access', refresh_token: 'refresh', remember: true });
+      expect(localStorage.getItem('access_token')).toBe('access');
+      expect(store.get().remember).toBe(true);
+      store.set({ access_token: 'access2', refresh_token: 'refresh2', remember: false });
+      expect(localStorage.getItem('access_token')).toBe(null);
+      expect(sessionStorage.getItem('access_token')).toBe('access2');
+      expect(store.get()).toStrictEqual({ access_token: 'access2', refresh_token: 'refresh2', remember: false });
+   });
+
+   it('returns the same object until the tokens change', () => {
+      const store = createBrowserTokenStore();
+      localStorage.setItem('access_token', 'access');
+      const first = store.get();
+      expect(store.get()).toBe(first);
+      localStorage.setItem('access_token', 'access2');
+      expect(store.get()).not.toBe(first);
+   });
+
+   it('notifies subscribers of changes', () => {
+      const memory = createMemoryTokenStore();
+      const local = createLocalStorageTokenStore();
+      const memoryListener = vi.fn();
+      const localListener = vi.fn();
+      const unsubscribe = memory.subscribe(memoryListener);
+      local.subscribe(localListener);
+      memory.set({ access_token: 'access', refresh_token: null, remember: false });
+      local.set({ access_token: 'access', refresh_token: null, remember: true });
+      expect(memoryListener).toHaveBeenCalledTimes(1);
+      expect(localListener).toHaveBeenCalledTimes(1);
+      unsubscribe();
+      memory.clear();
+      expect(memoryListener).toHaveBeenCalledTimes(1);
+      expect(memory.get().access_token).toBe(null);
+   });
+
+   it('keeps tokens in cookies', () => {
+      const store = createCookieTokenStore({ prefix: 'app2_' });
+      store.set({ access_token: 'access', refresh_token: 'refresh', remember: true });
+      expect(document.cookie).toContain('app2_access_token=access');
+      expect(store.get()).toStrictEqual({ access_token: 'access', refresh_token: 'refresh', remember: true });
+      store.clear();
+      expect(document.cookie).not.toContain('app2_access_token');
+      expect(store.get().access_token).toBe(null);
+   });
+
+   it('ignores other cookies with malformed names', () => {
+      document.cookie = '%E0%A4%A=1; path=/';
+      const store = createCookieTokenStore({ prefix: 'app3_' });
+      expect(store.get().access_token).toBe(null);
+      store.set({ access_token: 'access', refresh_token: 'refresh', remember: false });
+      expect(store.get().access_token).toBe('access');
+      store.clear();
+      document.cookie = '%E0%A4%A=; path=/; max-age=0';
+   });
+});
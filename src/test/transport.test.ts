@@ -0,0 +1,82 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * transport.test.ts: This file contains the tests for the request transports
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { xhrFetch } from '../transport';
+
+/* An XMLHttpRequest that responds (or fails) as soon as it is sent, unless it is told to wait */
+class FakeXMLHttpRequest {
+   static wait = false;
+   upload: { onprogress?: () => void } = {};
+   onload?: () => void;
+   onerror?: () => void;
+   ontimeout?: () => void;
+   onabort?: () => void;
+   responseType = '';
+   status = 0;
+   statusText = '';
+   response: unknown = null;
+   #url = '';
+   open(_method: string, url: string) {
+      this.#url = url;
+   }
+   setRequestHeader() {
+      /* Ignore */
+   }
+   getAllResponseHeaders() {
+      return '';
+   }
+   send() {
+      if (FakeXMLHttpRequest.wait) {
+         return;
+      }
+      setTimeout(() => {
+         if (this.#url === '/error/') {
+            this.onerror?.();
+         } else {
+            this.status = 200;
+            this.response = 'ok';
+            this.onload?.();
+         }
+      }, 0);
+   }
+   abort() {
+      this.onabort?.();
+   }
+}
+
+describe('xhrFetch', () => {
+   afterEach(() => {
+      FakeXMLHttpRequest.wait = false;
+      vi.unstubAllGlobals();
+   });
+
+   it('stops listening to the signal once the request is done', async () => {
+      vi.stubGlobal('XMLHttpRequest', FakeXMLHttpRequest);
+      const controller = new AbortController();
+      const add = vi.spyOn(controller.signal, 'addEventListener');
+      const remove = vi.spyOn(controller.signal, 'removeEventListener');
+
+      const resp = await xhrFetch('/ok/', { signal: controller.signal }, vi.fn());
+      expect(await resp.text()).toBe('ok');
+      await expect(xhrFetch('/error/', { signal: controller.signal }, vi.fn())).rejects.toThrowError('Network request failed');
+
+      expect(add).toHaveBeenCalledTimes(2);
+      expect(add.mock.calls[0][2]).toStrictEqual({ once: true });
+      expect(remove.mock.calls.map((call) => call[1])).toStrictEqual(add.mock.calls.map((call) => call[1]));
+   });
+
+   it('aborts the request when the signal aborts', async () => {
+      vi.stubGlobal('XMLHttpRequest', FakeXMLHttpRequest);
+      FakeXMLHttpRequest.wait = true;
+      const controller = new AbortController();
+      const resp = xhrFetch('/ok/', { signal: controller.signal }, vi.fn());
+      controller.abort();
+      await expect(resp).rejects.toThrowError('The request was aborted');
+   });
+});
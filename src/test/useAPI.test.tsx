@@ -11,8 +11,22 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import jwtEncode from 'jwt-encode';
 import mockFetch from '@jbloggz/mock-fetch';
+import { QueryClient } from '@tanstack/react-query';
 import useAPI from '../useAPI';
 import APIProvider from '../APIProvider';
+import { authMiddleware } from '../APIContext';
+import { createMemoryTokenStore } from '../tokenStore';
+import {
+   APIAbortError,
+   APIError,
+   APIMiddleware,
+   APITimeoutError,
+   isAPIError,
+   isValidationError,
+   SessionExpiredError,
+   StandardSchemaV1,
+   TokenClaims,
+} from '../useAPI.types';
 
 describe('useAPI', () => {
    beforeEach(() => {
@@ -680,4 +694,1471 @@ describe('useAPI', () => {
       await waitFor(() => expect(val.textContent).not.toBe('waiting'));
       expect(val.textContent).toBe('world');
    });
+
+   it('uses the base URL and endpoints from the provider config', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 300 }, 'secret');
+      const refreshToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 3000 }, 'secret');
+      mockFetch.setResponse('', 401);
+      mockFetch.setJSONResponseIf(
+         (req) => {
+            const params = new URLSearchParams(req.body || '');
+            return req.url === 'https://example.com/v2/auth/token' && params.get('gt') === 'pw';
+         },
+         { access_token: accessToken, refresh_token: refreshToken, token_type: 'bearer' }
+      );
+      mockFetch.setJSONResponseIf((req) => req.url === 'https://example.com/v2/foo/', { msg: 'success' });
+      localStorage.removeItem('access_token');
+      localStorage.removeItem('refresh_token');
+      const config = { baseUrl: 'https://example.com/v2/', tokenEndpoint: '/auth/token', grantTypeField: 'gt', passwordGrantType: 'pw' };
+
+      const TestComponent = () => {
+         const api = useAPI();
+         const [value, setValue] = useState('');
+         useEffect(() => {
+            const run = async () => {
+               await api.login('joe@example.com', 'foobar', true);
+            };
+            run();
+         }, []); // eslint-disable-line
+         useEffect(() => {
+            const run = async () => {
+               const resp = await api.request<{ msg: string }>({ method: 'GET', url: '/foo/' });
+               setValue(resp.data.msg);
+            };
+            if (api.user) {
+               run();
+            }
+         }, [api.user]); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider config={config}>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('success'));
+      expect(mockFetch.calls().length).toEqual(2);
+      expect(mockFetch.calls()[0].request.url).toEqual('https://example.com/v2/auth/token');
+      expect(mockFetch.calls()[0].request.body).toBe('username=joe%40example.com&password=foobar&remember=true&gt=pw');
+      expect(mockFetch.calls()[1].request.url).toEqual('https://example.com/v2/foo/');
+   });
+
+   it('keeps the same callbacks when the config is given inline', async () => {
+      const requests = new Set<unknown>();
+      const TestComponent = () => {
+         const api = useAPI();
+         requests.add(api.request);
+         return null;
+      };
+      const { rerender } = render(
+         <APIProvider config={{ baseUrl: 'https://example.com/', autoRefresh: { margin: 30 } }}>
+            <TestComponent />
+         </APIProvider>
+      );
+      rerender(
+         <APIProvider config={{ baseUrl: 'https://example.com/', autoRefresh: { margin: 30 } }}>
+            <TestComponent />
+         </APIProvider>
+      );
+      expect(requests.size).toBe(1);
+      rerender(
+         <APIProvider config={{ baseUrl: 'https://example.org/', autoRefresh: { margin: 30 } }}>
+            <TestComponent />
+         </APIProvider>
+      );
+      expect(requests.size).toBe(2);
+   });
+
+   it('uses the query client given to the provider', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      mockFetch.setJSONResponse({ hello: 'world' });
+      localStorage.setItem('access_token', accessToken);
+      const client = new QueryClient();
+      const TestComponent = () => {
+         const api = useAPI();
+         const query = api.useQuery<{ hello: string }>({ method: 'GET', url: '/foo/client/' });
+         return <p>{query.data?.data.hello}</p>;
+      };
+      render(
+         <APIProvider client={client}>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('world'));
+      expect(client.getQueryData(['GET', '/foo/client/'])).toStrictEqual({ code: 200, data: { hello: 'world' } });
+   });
+
+   it("doesn't share cached data between providers", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      mockFetch.setJSONResponse({ hello: 'world' });
+      localStorage.setItem('access_token', accessToken);
+      const TestComponent = () => {
+         const api = useAPI();
+         const query = api.useQuery<{ hello: string }>({ method: 'GET', url: '/foo/shared/', runOnce: true });
+         return <p>{query.data?.data.hello}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('world'));
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => expect(screen.getAllByText('world').length).toBe(2));
+      expect(mockFetch.calls().length).toEqual(2);
+   });
+
+   it('uses the token store given to the provider', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 300 }, 'secret');
+      const refreshToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 3000 }, 'secret');
+      mockFetch.setJSONResponse({ access_token: accessToken, refresh_token: refreshToken, token_type: 'bearer' });
+      localStorage.removeItem('access_token');
+      localStorage.removeItem('refresh_token');
+      const tokenStore = createMemoryTokenStore();
+
+      const LoginComponent = () => {
+         const api = useAPI();
+         useEffect(() => {
+            api.login('joe@example.com', 'foobar', true);
+         }, []); // eslint-disable-line
+         return <p>{api.user}</p>;
+      };
+      render(
+         <APIProvider tokenStore={tokenStore}>
+            <LoginComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('joe@example.com'));
+      expect(tokenStore.get()).toStrictEqual({ access_token: accessToken, refresh_token: refreshToken, remember: true });
+      expect(localStorage.getItem('access_token')).toBe(null);
+      expect(sessionStorage.getItem('access_token')).toBe(null);
+   });
+
+   it('refreshes the token and retries once if the server rejects it', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const rejectedAccessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 60, exp: now + 300 }, 'secret');
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 300 }, 'secret');
+      const refreshToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 3000 }, 'secret');
+      localStorage.setItem('access_token', rejectedAccessToken);
+      localStorage.setItem('refresh_token', refreshToken);
+
+      mockFetch.setResponse('', 401);
+      mockFetch.setJSONResponseIf(
+         (req) => req.url === '/api/oauth2/token/' && new URLSearchParams(req.body || '').get('refresh_token') === refreshToken,
+         { access_token: accessToken, refresh_token: refreshToken, token_type: 'bearer' }
+      );
+      mockFetch.setJSONResponseIf((req) => req.headers.Authorization === 'Bearer ' + accessToken, { foo: 'success' });
+
+      const TestComponent = () => {
+         const api = useAPI();
+         const [value, setValue] = useState('');
+         useEffect(() => {
+            const run = async () => {
+               const resp = await api.request<{ foo: string }>({ method: 'GET', url: '/foo/rejected/' });
+               setValue(resp.data.foo);
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('success'));
+      expect(mockFetch.calls().length).toBe(3);
+      expect(mockFetch.calls()[0].request.headers['Authorization']).toBe('Bearer ' + rejectedAccessToken);
+      expect(mockFetch.calls()[0].response.status).toBe(401);
+      expect(mockFetch.calls()[1].request.url).toBe('/api/oauth2/token/');
+      expect(mockFetch.calls()[2].request.url).toBe('/foo/rejected/');
+      expect(mockFetch.calls()[2].request.headers['Authorization']).toBe('Bearer ' + accessToken);
+      expect(localStorage.getItem('access_token')).toBe(accessToken);
+   });
+
+   it('throws a SessionExpiredError if the token cannot be refreshed after a 401', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 60, exp: now + 300 }, 'secret');
+      const refreshToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 3000 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      localStorage.setItem('refresh_token', refreshToken);
+      mockFetch.setResponse('', 401);
+
+      const TestComponent = () => {
+         const api = useAPI();
+         const [value, setValue] = useState('');
+         useEffect(() => {
+            const run = async () => {
+               try {
+                  await api.request({ method: 'GET', url: '/foo/expired/' });
+                  setValue('success');
+               } catch (e) {
+                  setValue(e instanceof SessionExpiredError ? e.message : 'Unknown Error');
+               }
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('Session expired'));
+      expect(mockFetch.calls().length).toBe(2);
+      expect(localStorage.getItem('access_token')).toBe(null);
+      expect(localStorage.getItem('refresh_token')).toBe(null);
+   });
+
+   it('adopts logins and logouts from other tabs', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 300 }, 'secret');
+      const otherTab = new BroadcastChannel('use-api');
+      const tokenStore = createMemoryTokenStore();
+
+      const TestComponent = () => {
+         const api = useAPI();
+         return <p role="test">{api.user || 'logged out'}</p>;
+      };
+      render(
+         <APIProvider tokenStore={tokenStore}>
+            <TestComponent />
+         </APIProvider>
+      );
+      const val = screen.getByRole('test');
+      expect(val.textContent).toBe('logged out');
+
+      otherTab.postMessage({ type: 'tokens', tokens: { access_token: accessToken, refresh_token: null, remember: false } });
+      await waitFor(() => expect(val.textContent).toBe('joe@example.com'));
+      expect(tokenStore.get().access_token).toBe(accessToken);
+
+      otherTab.postMessage({ type: 'logout' });
+      await waitFor(() => expect(val.textContent).toBe('logged out'));
+      expect(tokenStore.get().access_token).toBe(null);
+      otherTab.close();
+   });
+
+   it('emits a logout event when another tab logs out', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 300 }, 'secret');
+      const otherTab = new BroadcastChannel('use-api');
+      const tokenStore = createMemoryTokenStore();
+      tokenStore.set({ access_token: accessToken, refresh_token: null, remember: false });
+      const onLogout = vi.fn();
+
+      render(<APIProvider tokenStore={tokenStore} onLogout={onLogout} />);
+      otherTab.postMessage({ type: 'logout' });
+      await waitFor(() => expect(onLogout).toHaveBeenCalledTimes(1));
+      expect(onLogout.mock.calls[0][0].tokenData.sub).toBe('joe@example.com');
+      expect(tokenStore.get().access_token).toBe(null);
+
+      /* Nothing is emitted if this tab was already logged out */
+      otherTab.postMessage({ type: 'logout' });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(onLogout).toHaveBeenCalledTimes(1);
+      otherTab.close();
+   });
+
+   it('refreshes the token in the background before it expires', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const oldAccessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 270, exp: now + 30 }, 'secret');
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 300 }, 'secret');
+      const refreshToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 3000 }, 'secret');
+      localStorage.setItem('access_token', oldAccessToken);
+      localStorage.setItem('refresh_token', refreshToken);
+      mockFetch.setJSONResponse({ access_token: accessToken, refresh_token: refreshToken, token_type: 'bearer' });
+
+      const TestComponent = () => {
+         const api = useAPI();
+         return <p role="test">{api.expiry}</p>;
+      };
+      render(
+         <APIProvider config={{ autoRefresh: { margin: 60 } }}>
+            <TestComponent />
+         </APIProvider>
+      );
+      const val = screen.getByRole('test');
+      await waitFor(() => expect(val.textContent).toBe(String(now + 300)));
+      expect(mockFetch.calls().length).toBe(1);
+      expect(mockFetch.calls()[0].request.url).toBe('/api/oauth2/token/');
+      expect(mockFetch.calls()[0].request.body).toBe(`refresh_token=${refreshToken}&remember=true&grant_type=refresh_token`);
+      expect(localStorage.getItem('access_token')).toBe(accessToken);
+   });
+
+   it("doesn't refresh the token in the background while the page is hidden", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const oldAccessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 270, exp: now + 30 }, 'secret');
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 300 }, 'secret');
+      const refreshToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 3000 }, 'secret');
+      localStorage.setItem('access_token', oldAccessToken);
+      localStorage.setItem('refresh_token', refreshToken);
+      mockFetch.setJSONResponse({ access_token: accessToken, refresh_token: refreshToken, token_type: 'bearer' });
+      const visibility = vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+
+      const TestComponent = () => {
+         const api = useAPI();
+         return <p role="test">{api.expiry}</p>;
+      };
+      render(
+         <APIProvider config={{ autoRefresh: true }}>
+            <TestComponent />
+         </APIProvider>
+      );
+      const val = screen.getByRole('test');
+      await waitFor(() => expect(val.textContent).toBe(String(now + 30)));
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(mockFetch.calls().length).toBe(0);
+
+      visibility.mockReturnValue('visible');
+      document.dispatchEvent(new Event('visibilitychange'));
+      await waitFor(() => expect(val.textContent).toBe(String(now + 300)));
+      expect(mockFetch.calls().length).toBe(1);
+      visibility.mockRestore();
+   });
+
+   it("doesn't refresh in a loop when the token doesn't outlive the refresh margin", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const oldAccessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 10, exp: now + 30 }, 'secret');
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 30 }, 'secret');
+      const refreshToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 3000 }, 'secret');
+      localStorage.setItem('access_token', oldAccessToken);
+      localStorage.setItem('refresh_token', refreshToken);
+      mockFetch.setJSONResponse({ access_token: accessToken, refresh_token: refreshToken, token_type: 'bearer' });
+
+      const TestComponent = () => {
+         const api = useAPI();
+         return <p role="test">{api.claims?.iat}</p>;
+      };
+      render(
+         <APIProvider config={{ autoRefresh: { margin: 60 } }}>
+            <TestComponent />
+         </APIProvider>
+      );
+      const val = screen.getByRole('test');
+      await waitFor(() => expect(val.textContent).toBe(String(now)));
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      expect(mockFetch.calls().length).toBe(1);
+   });
+
+   it("doesn't refresh a token that expires beyond the longest timer straight away", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 60 * 24 * 60 * 60 }, 'secret');
+      const refreshToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 90 * 24 * 60 * 60 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      localStorage.setItem('refresh_token', refreshToken);
+      mockFetch.setJSONResponse({ access_token: accessToken, refresh_token: refreshToken, token_type: 'bearer' });
+
+      render(<APIProvider config={{ autoRefresh: true }} />);
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      expect(mockFetch.calls().length).toBe(0);
+   });
+
+   it('backs off exponentially when the background refresh fails', async () => {
+      vi.useFakeTimers();
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 270, exp: now + 30 }, 'secret');
+      const refreshToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 3000 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      localStorage.setItem('refresh_token', refreshToken);
+      mockFetch.setResponse('', 500);
+
+      render(<APIProvider config={{ autoRefresh: { minBackoff: 5, maxBackoff: 20 } }} />);
+      const attempts = [];
+      for (const time of [1000, 3000, 2000, 8000, 2000, 18000, 2000, 18000, 2000]) {
+         await vi.advanceTimersByTimeAsync(time);
+         attempts.push(mockFetch.calls().length);
+      }
+      vi.useRealTimers();
+      /* The retries are 5, 10, 20 and 20 seconds apart */
+      expect(attempts).toStrictEqual([1, 1, 2, 2, 3, 3, 4, 4, 5]);
+      expect(localStorage.getItem('access_token')).toBe(accessToken);
+   });
+
+   it('calls the session callbacks on login and logout', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 300 }, 'secret');
+      const refreshToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 3000 }, 'secret');
+      mockFetch.setJSONResponse({ access_token: accessToken, refresh_token: refreshToken, token_type: 'bearer' });
+      mockFetch.setResponseIf((req) => req.url === '/api/oauth2/logout/', '', 204);
+      localStorage.removeItem('access_token');
+      localStorage.removeItem('refresh_token');
+      const onLogin = vi.fn();
+      const onLogout = vi.fn();
+
+      const TestComponent = () => {
+         const api = useAPI();
+         const [value, setValue] = useState('');
+         useEffect(() => {
+            const run = async () => {
+               await api.login('joe@example.com', 'foobar', true);
+               setValue('logged in');
+            };
+            run();
+         }, []); // eslint-disable-line
+         useEffect(() => {
+            if (value === 'logged in' && api.user) {
+               api.logout().then(() => setValue('logged out'));
+            }
+         }, [value, api.user]); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider onLogin={onLogin} onLogout={onLogout}>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('logged out'));
+      expect(onLogin).toHaveBeenCalledTimes(1);
+      expect(onLogin.mock.calls[0][0].type).toBe('login');
+      expect(onLogin.mock.calls[0][0].tokenData.sub).toBe('joe@example.com');
+      expect(onLogout).toHaveBeenCalledTimes(1);
+      expect(onLogout.mock.calls[0][0].tokenData.sub).toBe('joe@example.com');
+   });
+
+   it('emits refreshFailed and sessionExpired when the token cannot be refreshed', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 600, exp: now - 300 }, 'secret');
+      const refreshToken = jwtEncode({ sub: 'joe@example.com', iat: now, exp: now + 3000 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      localStorage.setItem('refresh_token', refreshToken);
+      mockFetch.setResponse('', 401);
+      const onSessionExpired = vi.fn();
+      const onUnauthorized = vi.fn();
+      const listener = vi.fn();
+
+      const TestComponent = () => {
+         const api = useAPI();
+         const [value, setValue] = useState('');
+         useEffect(() => api.events.on('refreshFailed', listener), [api.events]);
+         useEffect(() => {
+            api.request({ method: 'GET', url: '/foo/events/' }).catch((e) => setValue(e.message));
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider onSessionExpired={onSessionExpired} onUnauthorized={onUnauthorized}>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('Session expired'));
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].error.code).toBe(401);
+      expect(onSessionExpired).toHaveBeenCalledTimes(1);
+      expect(onSessionExpired.mock.calls[0][0].tokenData.sub).toBe('joe@example.com');
+      expect(onUnauthorized).not.toHaveBeenCalled();
+   });
+
+   it('maps custom claims with the provider claim mapper', async () => {
+      interface Claims extends TokenClaims {
+         name: string;
+         roles: string[];
+      }
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: '42', iat: now, exp: now + 300, name: 'Joe', roles: ['admin', 'editor'] }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      const mapClaims = (claims: Claims) => ({ user: claims.name, readwrite: claims.roles.includes('editor'), scopes: claims.roles });
+
+      const TestComponent = () => {
+         const api = useAPI<Claims>();
+         return (
+            <p role="test">
+               {api.user}:{api.claims?.sub}:{api.readwrite ? 'rw' : 'ro'}:{api.scopes.join(',')}
+            </p>
+         );
+      };
+      render(
+         <APIProvider mapClaims={mapClaims}>
+            <TestComponent />
+         </APIProvider>
+      );
+      const val = screen.getByRole('test');
+      expect(val.textContent).toBe('Joe:42:rw:admin,editor');
+   });
+
+   it("doesn't map the claims of a token that can't be decoded", async () => {
+      interface Claims extends TokenClaims {
+         roles: string[];
+      }
+      const tokenStore = createMemoryTokenStore();
+      tokenStore.set({ access_token: 'not-a-jwt', refresh_token: null, remember: false });
+      const mapClaims = vi.fn((claims: Claims) => ({ user: claims.sub, readwrite: false, scopes: claims.roles }));
+
+      const TestComponent = () => {
+         const api = useAPI<Claims>();
+         return (
+            <p role="test">
+               {api.claims === undefined ? 'no claims' : 'claims'}:{api.user || 'no user'}:{api.scopes.length}
+            </p>
+         );
+      };
+      render(
+         <APIProvider tokenStore={tokenStore} mapClaims={mapClaims}>
+            <TestComponent />
+         </APIProvider>
+      );
+      expect(screen.getByRole('test').textContent).toBe('no claims:no user:0');
+      expect(mapClaims).not.toHaveBeenCalled();
+   });
+
+   it('can make a PATCH request with a valid token', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      mockFetch.setJSONResponse({ patch_hello: 'patch_world' });
+      localStorage.setItem('access_token', accessToken);
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               const resp = await api.request<{ patch_hello: string }>({ method: 'PATCH', url: '/foo/patch/', body: '{"msg":"hello"}' });
+               setValue(resp.data.patch_hello);
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('patch_world'));
+      const req = mockFetch.calls()[0].request;
+      expect(req.method).toEqual('PATCH');
+      expect(req.body).toBe('{"msg":"hello"}');
+      expect(req.headers['Authorization']).toEqual('Bearer ' + accessToken);
+      expect(req.headers['Content-Type']).toEqual('application/json');
+   });
+
+   it('can make a HEAD request without parsing the body', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      mockFetch.setResponse('', 200);
+      localStorage.setItem('access_token', accessToken);
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               const resp = await api.request({ method: 'HEAD', url: '/foo/head/' });
+               setValue(`${resp.code}:${resp.data}`);
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('200:undefined'));
+      const req = mockFetch.calls()[0].request;
+      expect(req.method).toEqual('HEAD');
+      expect(req.headers['Authorization']).toEqual('Bearer ' + accessToken);
+      expect(req.headers['Content-Type']).not.toBeDefined();
+   });
+
+   it('can make an OPTIONS request and accepts empty JSON bodies', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      mockFetch.setResponseIf((req) => req.method === 'OPTIONS', '', 200, { Allow: 'GET, POST, OPTIONS' });
+      mockFetch.setResponseIf((req) => req.method === 'POST', '', 201);
+      localStorage.setItem('access_token', accessToken);
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               const options = await api.request({ method: 'OPTIONS', url: '/foo/options/' });
+               const created = await api.request({ method: 'POST', url: '/foo/options/', body: '{}' });
+               setValue(`${options.code}:${options.data},${created.code}:${created.data}`);
+            };
+            run().catch((e) => setValue(e.message));
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('200:undefined,201:undefined'));
+      const req = mockFetch.calls()[0].request;
+      expect(req.method).toEqual('OPTIONS');
+      expect(req.headers['Authorization']).toEqual('Bearer ' + accessToken);
+      expect(req.headers['Content-Type']).not.toBeDefined();
+   });
+
+   it('can send a form body and read a text response', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      mockFetch.setResponse('id,name\n1,foo', 200, { 'Content-Type': 'text/csv' });
+      localStorage.setItem('access_token', accessToken);
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               const resp = await api.request<string>({
+                  method: 'POST',
+                  url: '/foo/export/',
+                  body: new URLSearchParams({ format: 'csv' }),
+                  responseType: 'text',
+               });
+               setValue(resp.data.split('\n')[1]);
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('1,foo'));
+      const req = mockFetch.calls()[0].request;
+      expect(req.body).toBe('format=csv');
+      expect(req.headers['Content-Type']).toEqual('application/x-www-form-urlencoded');
+   });
+
+   it("doesn't set a Content-Type or stringify when a mutation sends FormData", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      mockFetch.setJSONResponse({ id: 1 }, 201);
+      localStorage.setItem('access_token', accessToken);
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+      const form = new FormData();
+      form.append('name', 'foo');
+      const TestComponent = () => {
+         const api = useAPI();
+         const mutation = api.useMutationQuery<FormData, { id: number }>({ method: 'POST', url: '/foo/upload/' });
+         useEffect(() => {
+            mutation.mutate(form);
+         }, []); // eslint-disable-line
+         return <p>{mutation.data?.data.id}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('1'));
+      const init = fetchSpy.mock.calls[0][1];
+      expect(init?.body).toBe(form);
+      expect((init?.headers as { [key: string]: string })['Content-Type']).not.toBeDefined();
+      fetchSpy.mockRestore();
+   });
+
+   it('reports the download progress of a request', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      const body = JSON.stringify({ hello: 'world' });
+      const fetchSpy = vi
+         .spyOn(globalThis, 'fetch')
+         .mockResolvedValue(new Response(body, { status: 200, headers: { 'Content-Length': String(body.length) } }));
+      const onDownloadProgress = vi.fn();
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               const resp = await api.request<{ hello: string }>({ method: 'GET', url: '/foo/download/', onDownloadProgress });
+               setValue(resp.data.hello);
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('world'));
+      expect(onDownloadProgress).toHaveBeenCalled();
+      expect(onDownloadProgress.mock.lastCall?.[0]).toStrictEqual({ direction: 'download', loaded: body.length, total: body.length });
+      fetchSpy.mockRestore();
+   });
+
+   it('exposes the upload progress of a mutation', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      const sent: { method: string; url: string; headers: { [key: string]: string }; body: unknown }[] = [];
+
+      class FakeXMLHttpRequest {
+         upload: { onprogress?: (event: { loaded: number; total: number; lengthComputable: boolean }) => void } = {};
+         onload?: () => void;
+         responseType = '';
+         status = 0;
+         statusText = '';
+         response: unknown = null;
+         #request = { method: '', url: '', headers: {} as { [key: string]: string }, body: null as unknown };
+         open(method: string, url: string) {
+            this.#request.method = method;
+            this.#request.url = url;
+         }
+         setRequestHeader(key: string, value: string) {
+            this.#request.headers[key] = value;
+         }
+         getAllResponseHeaders() {
+            return 'content-type: application/json\r\n';
+         }
+         send(body: unknown) {
+            sent.push({ ...this.#request, body });
+            setTimeout(() => {
+               this.upload.onprogress?.({ loaded: 50, total: 100, lengthComputable: true });
+               this.upload.onprogress?.({ loaded: 100, total: 100, lengthComputable: true });
+               this.status = 201;
+               this.statusText = 'Created';
+               this.response = '{"id":7}';
+               this.onload?.();
+            }, 0);
+         }
+      }
+      vi.stubGlobal('XMLHttpRequest', FakeXMLHttpRequest);
+      const onUploadProgress = vi.fn();
+
+      const TestComponent = () => {
+         const api = useAPI();
+         const mutation = api.useMutationQuery<Blob, { id: number }>({
+            method: 'POST',
+            url: '/foo/upload/',
+            trackProgress: true,
+            onUploadProgress,
+         });
+         useEffect(() => {
+            mutation.mutate(new Blob(['hello'], { type: 'text/plain' }));
+         }, []); // eslint-disable-line
+         return (
+            <p>
+               {mutation.progress?.direction}:{mutation.progress?.loaded}:{mutation.data?.data.id}
+            </p>
+         );
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('download:8:7'));
+      expect(onUploadProgress.mock.calls.map((call) => call[0].loaded)).toStrictEqual([50, 100]);
+      expect(sent.length).toBe(1);
+      expect(sent[0].method).toBe('POST');
+      expect(sent[0].url).toBe('/foo/upload/');
+      expect(sent[0].headers['Authorization']).toBe('Bearer ' + accessToken);
+      expect(sent[0].headers['Content-Type']).toBe('text/plain');
+      vi.unstubAllGlobals();
+   });
+
+   it('throws an APITimeoutError or APIAbortError when a request is cancelled', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(
+         (_url, init) =>
+            new Promise((_resolve, reject) => {
+               init?.signal?.addEventListener('abort', () => reject(new DOMException('The request was aborted', 'AbortError')));
+            })
+      );
+      const controller = new AbortController();
+      const TestComponent = () => {
+         const [value, setValue] = useState<string[]>([]);
+         const api = useAPI();
+         useEffect(() => {
+            const describe = (e: unknown) => (e instanceof APITimeoutError ? 'timeout' : e instanceof APIAbortError ? 'aborted' : 'other');
+            const run = async () => {
+               const results = await Promise.allSettled([
+                  api.request({ method: 'GET', url: '/foo/slow/', timeoutMs: 10 }),
+                  api.request({ method: 'GET', url: '/foo/cancel/', signal: controller.signal }),
+               ]);
+               setValue(results.map((result) => (result.status === 'rejected' ? describe(result.reason) : 'success')));
+            };
+            run();
+            setTimeout(() => controller.abort(), 20);
+         }, []); // eslint-disable-line
+         return <p>{value.join(',')}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('timeout,aborted'));
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      fetchSpy.mockRestore();
+   });
+
+   it('includes the response body, headers and request in an APIError', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      const detail = [{ loc: ['body', 'name'], msg: 'field required', type: 'value_error.missing' }];
+      const fetchSpy = vi
+         .spyOn(globalThis, 'fetch')
+         .mockResolvedValueOnce(new Response(JSON.stringify({ detail }), { status: 422, headers: { 'X-Request-Id': 'abc' } }))
+         .mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      const errors: unknown[] = [];
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               for (const url of ['/foo/invalid/', '/foo/offline/']) {
+                  try {
+                     await api.request({ method: 'POST', url, body: '{}' });
+                  } catch (e) {
+                     errors.push(e);
+                  }
+               }
+               setValue('done');
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('done'));
+      const [invalid, offline] = errors;
+      expect(isValidationError(invalid)).toBe(true);
+      if (isValidationError(invalid)) {
+         expect(invalid.code).toBe(422);
+         expect(invalid.body.detail[0].loc).toStrictEqual(['body', 'name']);
+         expect(invalid.headers?.get('X-Request-Id')).toBe('abc');
+         expect(invalid.method).toBe('POST');
+         expect(invalid.url).toBe('/foo/invalid/');
+      }
+      expect(isAPIError(offline, 'network')).toBe(true);
+      expect(isAPIError(offline, 'http')).toBe(false);
+      expect((offline as APIError).message).toBe('Failed to fetch');
+      fetchSpy.mockRestore();
+   });
+
+   it('validates and transforms the response with a schema', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      mockFetch.setJSONResponseIf((req) => req.url === '/foo/valid/', { created: '2023-11-05T00:00:00Z' });
+      mockFetch.setJSONResponseIf((req) => req.url === '/foo/invalid/', { created: 5 });
+      const schema: StandardSchemaV1<unknown, { created: Date }> = {
+         '~standard': {
+            version: 1,
+            vendor: 'test',
+            validate: (value) => {
+               const created = (value as { created?: unknown })?.created;
+               if (typeof created !== 'string') {
+                  return { issues: [{ message: 'Expected a string', path: [{ key: 'created' }] }] };
+               }
+               return { value: { created: new Date(created) } };
+            },
+         },
+      };
+
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               const resp = await api.request({ method: 'GET', url: '/foo/valid/', schema });
+               const created: Date = resp.data.created;
+               try {
+                  await api.request({ method: 'GET', url: '/foo/invalid/', schema });
+               } catch (e) {
+                  if (isAPIError(e, 'validation')) {
+                     setValue(`${created.getUTCFullYear()}:${e.issues?.[0].path.join('.')}:${e.issues?.[0].message}`);
+                  }
+               }
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('2023:created:Expected a string'));
+   });
+
+   it('rejects an invalid mutation payload without sending it', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      mockFetch.setJSONResponse({ id: 1 }, 201);
+      const inputSchema: StandardSchemaV1<unknown, { name: string }> = {
+         '~standard': {
+            version: 1,
+            vendor: 'test',
+            validate: (value) => {
+               const name = (value as { name?: unknown })?.name;
+               if (typeof name !== 'string' || !name) {
+                  return { issues: [{ message: 'Required', path: ['name'] }] };
+               }
+               return { value: { name: name.trim() } };
+            },
+         },
+      };
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         const mutation = api.useMutationQuery<{ name: string }, { id: number }>({ method: 'POST', url: '/foo/create/', inputSchema });
+         useEffect(() => {
+            const run = async () => {
+               try {
+                  await mutation.mutateAsync({ name: '' });
+               } catch (e) {
+                  if (isAPIError(e, 'validation')) {
+                     const resp = await mutation.mutateAsync({ name: ' foo ' });
+                     setValue(`${e.issues?.[0].path.join('.')}:${e.issues?.[0].message}:${resp.data.id}`);
+                  }
+               }
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('name:Required:1'));
+      expect(mockFetch.calls().length).toBe(1);
+      expect(mockFetch.calls()[0].request.body).toBe('{"name":"foo"}');
+   });
+
+   it('validates a JSON request body before sending it', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      mockFetch.setJSONResponse({ id: 1 }, 201);
+      const validateInput = (data: unknown) => typeof (data as { name?: unknown })?.name === 'string';
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               try {
+                  await api.request({ method: 'POST', url: '/foo/create/', body: JSON.stringify({ name: 5 }), validateInput });
+               } catch (e) {
+                  if (isAPIError(e, 'validation')) {
+                     setValue(`${e.message}:${(e.body as { name: number }).name}`);
+                  }
+               }
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('Request validation failed:5'));
+      expect(mockFetch.calls().length).toBe(0);
+   });
+
+   it('passes requests through the middleware chain in order', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      mockFetch.setJSONResponse({ data: { hello: 'world' } });
+      const middleware: APIMiddleware[] = [
+         async (request, next) => {
+            const resp = await next({ ...request, headers: { ...request.headers, 'X-Correlation-ID': 'abc' } });
+            return { ...resp, data: (resp.data as { data: unknown }).data };
+         },
+         (request, next) =>
+            next({ ...request, headers: { ...request.headers, 'X-Signature': `signed:${request.headers?.Authorization}` } }),
+      ];
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               /* The validator sees the data after the middleware has unwrapped it */
+               const resp = await api.request<{ hello: string }>({
+                  method: 'GET',
+                  url: '/foo/enveloped/',
+                  validate: (data): data is { hello: string } => typeof (data as { hello?: unknown })?.hello === 'string',
+               });
+               setValue(resp.data.hello);
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider middleware={middleware}>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('world'));
+      const req = mockFetch.calls()[0].request;
+      expect(req.headers['X-Correlation-ID']).toBe('abc');
+      expect(req.headers['Authorization']).toBe(`Bearer ${accessToken}`);
+      expect(req.headers['X-Signature']).toBe(`signed:Bearer ${accessToken}`);
+   });
+
+   it('lets middleware short-circuit requests and transform errors', async () => {
+      localStorage.removeItem('access_token');
+      localStorage.removeItem('refresh_token');
+      const middleware: APIMiddleware[] = [
+         async (request, next) => {
+            if (request.url === '/foo/cached/') {
+               return { code: 200, data: 'cached' };
+            }
+            try {
+               return await next(request);
+            } catch (e) {
+               throw new APIError(`Wrapped: ${(e as APIError).message}`, (e as APIError).code);
+            }
+         },
+         authMiddleware,
+      ];
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               const resp = await api.request<string>({ method: 'GET', url: '/foo/cached/' });
+               try {
+                  /* A short-circuited response is still validated */
+                  await api.request<number>({
+                     method: 'GET',
+                     url: '/foo/cached/',
+                     validate: (data): data is number => typeof data === 'number',
+                  });
+               } catch (e) {
+                  setValue(`${(e as APIError).kind}:`);
+               }
+               try {
+                  await api.request({ method: 'GET', url: '/foo/private/' });
+               } catch (e) {
+                  setValue((prev) => `${prev}${resp.data}:${(e as APIError).message}:${(e as APIError).code}`);
+               }
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider middleware={middleware}>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('validation:cached:Wrapped: Missing access token:401'));
+      expect(mockFetch.calls().length).toBe(0);
+   });
+
+   it('retries transient failures according to the retry policy', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      const fetchSpy = vi
+         .spyOn(globalThis, 'fetch')
+         .mockImplementationOnce(async () => new Response('', { status: 503, headers: { 'Retry-After': '0' } }))
+         .mockImplementationOnce(async () => new Response(JSON.stringify({ hello: 'world' }), { status: 200 }))
+         .mockImplementationOnce(async () => new Response('', { status: 503 }))
+         .mockImplementationOnce(async () => new Response('', { status: 404 }));
+      const onRetry = vi.fn();
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               const resp = await api.request<{ hello: string }>({ method: 'GET', url: '/foo/flaky/' });
+               try {
+                  await api.request({ method: 'POST', url: '/foo/create/', body: '{}' });
+               } catch (e) {
+                  const posted = (e as APIError).attempts;
+                  try {
+                     await api.request({ method: 'GET', url: '/foo/missing/' });
+                  } catch (e) {
+                     setValue(`${resp.data.hello}:${resp.attempts}:${posted}:${(e as APIError).attempts}`);
+                  }
+               }
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider retry={{ minDelay: 60000, onRetry }}>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('world:2:1:1'));
+      expect(fetchSpy).toHaveBeenCalledTimes(4);
+      expect(onRetry).toHaveBeenCalledOnce();
+      expect(onRetry.mock.lastCall?.[0]).toBe(1);
+      expect(onRetry.mock.lastCall?.[2]).toBe(0);
+      fetchSpy.mockRestore();
+   });
+
+   it('only retries mutations that are marked idempotent', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      const fetchSpy = vi
+         .spyOn(globalThis, 'fetch')
+         .mockImplementationOnce(async () => {
+            throw new TypeError('Failed to fetch');
+         })
+         .mockImplementationOnce(async () => new Response(JSON.stringify({ id: 1 }), { status: 200 }));
+      const TestComponent = () => {
+         const api = useAPI();
+         const mutation = api.useMutationQuery<{ name: string }, { id: number }>({
+            method: 'PUT',
+            url: '/foo/1/',
+            idempotent: true,
+            retry: { minDelay: 1, jitter: false },
+         });
+         useEffect(() => {
+            mutation.mutate({ name: 'foo' });
+         }, []); // eslint-disable-line
+         return <p>{mutation.data ? `${mutation.data.data.id}:${mutation.data.attempts}` : ''}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('1:2'));
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      fetchSpy.mockRestore();
+   });
+
+   it('merges the default headers with the caller headers without mutating them', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      mockFetch.setJSONResponse({ hello: 'world' });
+      const headers = Object.freeze({ 'Accept-Language': 'en-AU', 'content-type': 'application/vnd.foo+json' });
+      const options = Object.freeze({ method: 'POST', url: '/foo/headers/', headers, body: '{}' } as const);
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               const resp = await api.request<{ hello: string }>(options);
+               setValue(resp.data.hello);
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('world'));
+      const req = mockFetch.calls()[0].request;
+      expect(req.headers).toStrictEqual({
+         Authorization: `Bearer ${accessToken}`,
+         'Accept-Language': 'en-AU',
+         'content-type': 'application/vnd.foo+json',
+      });
+      expect(options.headers).toStrictEqual({ 'Accept-Language': 'en-AU', 'content-type': 'application/vnd.foo+json' });
+   });
+
+   it('sends requests without the access token when auth is false', async () => {
+      localStorage.removeItem('access_token');
+      localStorage.removeItem('refresh_token');
+      mockFetch.setJSONResponse({ hello: 'world' });
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               const resp = await api.request<{ hello: string }>({ method: 'GET', url: '/foo/public/', auth: false });
+               setValue(resp.data.hello);
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('world'));
+      expect(mockFetch.calls()[0].request.headers['Authorization']).not.toBeDefined();
+   });
+
+   it('caches queries under an explicit query key', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      mockFetch.setJSONResponse({ hello: 'world' });
+      localStorage.setItem('access_token', accessToken);
+      const client = new QueryClient();
+      const TestComponent = () => {
+         const api = useAPI();
+         const query = api.useQuery<{ hello: string }>({ method: 'GET', url: '/foo/keyed/', queryKey: ['foo', 'keyed'] });
+         return <p>{query.data?.data.hello}</p>;
+      };
+      render(
+         <APIProvider client={client}>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('world'));
+      expect(client.getQueryData(['foo', 'keyed'])).toStrictEqual({ code: 200, data: { hello: 'world' } });
+      expect(client.getQueryData(['GET', '/foo/keyed/'])).not.toBeDefined();
+   });
+
+   it('fetches a list a page at a time', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      const fetchSpy = vi
+         .spyOn(globalThis, 'fetch')
+         .mockImplementationOnce(
+            async () =>
+               new Response(JSON.stringify({ results: [{ id: 1 }, { id: 2 }] }), { headers: { Link: '</foo/items/?page=2>; rel="next"' } })
+         )
+         .mockImplementationOnce(async () => new Response(JSON.stringify({ results: [{ id: 3 }] })));
+      const TestComponent = () => {
+         const api = useAPI();
+         const query = api.useInfiniteQuery<{ id: number }>({
+            method: 'GET',
+            url: '/foo/items/',
+            pagination: { type: 'link' },
+            items: (data) => (data as { results: unknown[] }).results as { id: number }[],
+            validateList: (item: unknown): item is { id: number } => typeof (item as { id?: unknown }).id === 'number',
+         });
+         useEffect(() => {
+            if (query.hasNextPage && !query.isFetching) {
+               query.fetchNextPage();
+            }
+         }, [query.hasNextPage, query.isFetching]); // eslint-disable-line
+         return <p>{query.hasNextPage === false ? query.items.map((item) => item.id).join(',') : ''}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('1,2,3'));
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(fetchSpy.mock.calls[1][0]).toBe('/foo/items/?page=2');
+      fetchSpy.mockRestore();
+   });
+
+   it('rejects a page with items that fail validateList', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      mockFetch.setJSONResponse([{ id: 1 }, { id: 'two' }]);
+      const TestComponent = () => {
+         const api = useAPI();
+         const query = api.useInfiniteQuery<{ id: number }>({
+            method: 'GET',
+            url: '/foo/items/',
+            pagination: { type: 'offset', limit: 2 },
+            validateList: (item: unknown): item is { id: number } => typeof (item as { id?: unknown }).id === 'number',
+         });
+         return <p>{query.error?.kind}</p>;
+      };
+      render(
+         <APIProvider defaultOptions={{ queries: { retry: false } }}>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('validation'));
+      expect(mockFetch.calls()[0].request.url).toBe('/foo/items/?offset=0&limit=2');
+   });
+
+   it('leaves retrying pages to the retry policy', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('', { status: 503 }));
+      const TestComponent = () => {
+         const api = useAPI();
+         const query = api.useInfiniteQuery<{ id: number }>({
+            method: 'GET',
+            url: '/foo/items/',
+            pagination: { type: 'offset', limit: 2 },
+         });
+         return <p>{query.error ? `${query.error.code}:${query.error.attempts}` : ''}</p>;
+      };
+      render(
+         <APIProvider retry={{ maxAttempts: 2, minDelay: 1, jitter: false }}>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('503:2'));
+      /* Long enough for react-query to have retried, if it were going to */
+      await new Promise((resolve) => setTimeout(resolve, 1200));
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      fetchSpy.mockRestore();
+   });
+
+   it('invalidates queries after a mutation succeeds', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      mockFetch.setJSONResponseIf((req) => req.method === 'GET', ['foo']);
+      mockFetch.setJSONResponseIf((req) => req.method === 'POST', { id: 1 });
+      const TestComponent = () => {
+         const api = useAPI();
+         const query = api.useQuery<string[]>({ method: 'GET', url: '/foo/list/' });
+         const mutation = api.useMutationQuery<{ name: string }, { id: number }>({
+            method: 'POST',
+            url: '/foo/list/',
+            invalidates: [{ method: 'GET', url: '/foo/list/' }],
+         });
+         useEffect(() => {
+            if (query.isSuccess && mutation.isIdle) {
+               mutation.mutate({ name: 'bar' });
+            }
+         }, [query.isSuccess]); // eslint-disable-line
+         return <p>{mutation.isSuccess ? query.data?.data.join(',') : ''}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('foo'));
+      await waitFor(() => expect(mockFetch.calls().filter((call) => call.request.method === 'GET').length).toBe(2));
+   });
+
+   it('rolls back an optimistic update when the mutation fails', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      let fail: (resp: Response) => void = () => undefined;
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(
+         () =>
+            new Promise<Response>((resolve) => {
+               fail = resolve;
+            })
+      );
+      const client = new QueryClient();
+      client.setQueryData(['GET', '/foo/list/'], { code: 200, data: ['foo'] });
+      const TestComponent = () => {
+         const api = useAPI();
+         const mutation = api.useMutationQuery<string, string[]>({
+            method: 'POST',
+            url: '/foo/list/',
+            optimistic: { target: ['GET', '/foo/list/'], update: (data, name) => [...(data as string[]), name] },
+         });
+         useEffect(() => {
+            mutation.mutate('bar');
+         }, []); // eslint-disable-line
+         return <p>{mutation.status}</p>;
+      };
+      render(
+         <APIProvider client={client}>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => expect(client.getQueryData(['GET', '/foo/list/'])).toStrictEqual({ code: 200, data: ['foo', 'bar'] }));
+      fail(new Response('', { status: 500 }));
+      await waitFor(() => screen.getByText('error'));
+      expect(client.getQueryData(['GET', '/foo/list/'])).toStrictEqual({ code: 200, data: ['foo'] });
+      fetchSpy.mockRestore();
+   });
+
+   it('fills in URL templates from the path params', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      mockFetch.setJSONResponse({ id: 1 });
+      const client = new QueryClient();
+      const TestComponent = () => {
+         const api = useAPI();
+         const query = api.useQuery<{ id: number }>({ method: 'GET', url: '/foo/items/:id/', pathParams: { id: 'a/b' } });
+         const mutation = api.useMutationQuery<{ id: number; name: string }, { id: number }>({ method: 'PUT', url: '/foo/items/:id/' });
+         useEffect(() => {
+            mutation.mutate({ id: 7, name: 'foo' });
+         }, []); // eslint-disable-line
+         return <p>{query.data && mutation.data ? 'done' : ''}</p>;
+      };
+      render(
+         <APIProvider client={client}>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('done'));
+      const urls = mockFetch.calls().map((call) => `${call.request.method} ${call.request.url}`);
+      expect(urls).toContain('GET /foo/items/a%2Fb/');
+      expect(urls).toContain('PUT /foo/items/7/');
+      expect(client.getQueryData(['GET', '/foo/items/:id/', { path: { id: 'a/b' } }])).toStrictEqual({ code: 200, data: { id: 1 } });
+   });
+
+   it('rejects a request with a missing path param', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      mockFetch.setJSONResponse({ id: 1 });
+      const TestComponent = () => {
+         const api = useAPI();
+         const mutation = api.useMutationQuery<{ name: string }, { id: number }>({ method: 'PUT', url: '/foo/items/:id/' });
+         useEffect(() => {
+            mutation.mutate({ name: 'foo' });
+         }, []); // eslint-disable-line
+         return <p>{mutation.error?.message}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('Missing path parameter: id'));
+      expect(mockFetch.calls().length).toBe(0);
+   });
+
+   it('fills in URL templates even without path params', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = jwtEncode({ sub: 'joe@example.com', iat: now - 300, exp: now + 300 }, 'secret');
+      localStorage.setItem('access_token', accessToken);
+      mockFetch.setJSONResponse({ id: 1 });
+      const TestComponent = () => {
+         const [value, setValue] = useState('');
+         const api = useAPI();
+         useEffect(() => {
+            const run = async () => {
+               /* Colons in the query string aren't params */
+               const resp = await api.request<{ id: number }>({ method: 'GET', url: '/foo/items/?at=10:30&q=:name' });
+               try {
+                  await api.request({ method: 'GET', url: '/foo/items/:id/' });
+               } catch (e) {
+                  setValue(`${resp.data.id}:${(e as APIError).message}`);
+               }
+            };
+            run();
+         }, []); // eslint-disable-line
+         return <p>{value}</p>;
+      };
+      render(
+         <APIProvider>
+            <TestComponent />
+         </APIProvider>
+      );
+      await waitFor(() => screen.getByText('1:Missing path parameter: id'));
+      expect(mockFetch.calls().map((call) => call.request.url)).toStrictEqual(['/foo/items/?at=10:30&q=:name']);
+   });
 });
@@ -0,0 +1,218 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * tokenStore.ts: This file contains the TokenStore implementations
+ */
+
+import { CookieTokenStoreOptions, StoredTokens, TokenStore, TokenStoreOptions } from './useAPI.types';
+
+/* The event dispatched on the window whenever a store in this tab changes the tokens */
+const TOKENS_CHANGED_EVENT = 'use-api:tokens';
+
+const emptyTokens: StoredTokens = { access_token: null, refresh_token: null, remember: false };
+
+/*
+ * Returns a function that will give back the previous tokens object if the
+ * new one has the same values. Stores are required to return a stable object
+ * from get(), so this is used whenever the tokens are read from somewhere else
+ */
+const snapshotCache = () => {
+   let last = emptyTokens;
+   return (next: StoredTokens): StoredTokens => {
+      if (next.access_token === last.access_token && next.refresh_token === last.refresh_token && next.remember === last.remember) {
+         return last;
+      }
+      last = next;
+      return last;
+   };
+};
+
+const notifyTokensChanged = () => {
+   if (typeof window !== 'undefined') {
+      window.dispatchEvent(new Event(TOKENS_CHANGED_EVENT));
+   }
+};
+
+/* Subscribe to token changes made by any store in this tab, and storage changes made in other tabs */
+const subscribeToWindow = (listener: () => void) => {
+   if (typeof window === 'undefined') {
+      return () => undefined;
+   }
+   window.addEventListener(TOKENS_CHANGED_EVENT, listener);
+   window.addEventListener('storage', listener);
+   return () => {
+      window.removeEventListener(TOKENS_CHANGED_EVENT, listener);
+      window.removeEventListener('storage', listener);
+   };
+};
+
+/* A TokenStore backed by a web Storage object */
+const createStorageTokenStore = (getStorage: () => Storage, remember: boolean, options?: TokenStoreOptions): TokenStore => {
+   const prefix = options?.prefix || '';
+   const cache = snapshotCache();
+   const storage = () => (typeof window === 'undefined' ? null : getStorage());
+
+   return {
+      get: () => {
+         const store = storage();
+         return cache({
+            access_token: store?.getItem(prefix + 'access_token') ?? null,
+            refresh_token: store?.getItem(prefix + 'refresh_token') ?? null,
+            remember,
+         });
+      },
+      set: (tokens) => {
+         const store = storage();
+         for (const key of ['access_token', 'refresh_token'] as const) {
+            const value = tokens[key];
+            if (value) {
+               store?.setItem(prefix + key, value);
+            } else {
+               store?.removeItem(prefix + key);
+            }
+         }
+         notifyTokensChanged();
+      },
+      clear: () => {
+         const store = storage();
+         store?.removeItem(prefix + 'access_token');
+         store?.removeItem(prefix + 'refresh_token');
+         notifyTokensChanged();
+      },
+      subscribe: subscribeToWindow,
+      id: prefix || undefined,
+   };
+};
+
+/* A TokenStore that keeps the tokens in localStorage */
+export const createLocalStorageTokenStore = (options?: TokenStoreOptions): TokenStore => {
+   return createStorageTokenStore(() => window.localStorage, true, options);
+};
+
+/* A TokenStore that keeps the tokens in sessionStorage */
+export const createSessionStorageTokenStore = (options?: TokenStoreOptions): TokenStore => {
+   return createStorageTokenStore(() => window.sessionStorage, false, options);
+};
+
+/*
+ * A TokenStore that keeps the tokens in localStorage if the user asked to be
+ * remembered, otherwise sessionStorage. This is the default store
+ */
+export const createBrowserTokenStore = (options?: TokenStoreOptions): TokenStore => {
+   const local = createLocalStorageTokenStore(options);
+   const session = createSessionStorageTokenStore(options);
+   const cache = snapshotCache();
+
+   return {
+      get: () => {
+         const localTokens = local.get();
+         const sessionTokens = session.get();
+         return cache({
+            access_token: localTokens.access_token || sessionTokens.access_token,
+            refresh_token: localTokens.refresh_token || sessionTokens.refresh_token,
+            remember: !!localTokens.access_token,
+         });
+      },
+      set: (tokens) => {
+         (tokens.remember ? session : local).clear();
+         (tokens.remember ? local : session).set(tokens);
+      },
+      clear: () => {
+         local.clear();
+         session.clear();
+      },
+      subscribe: subscribeToWindow,
+      id: local.id,
+   };
+};
+
+/* A TokenStore that only keeps the tokens in memory, so they are lost when the page is reloaded */
+export const createMemoryTokenStore = (options?: TokenStoreOptions): TokenStore => {
+   let tokens = emptyTokens;
+   const listeners = new Set<() => void>();
+   const update = (next: StoredTokens) => {
+      tokens = next;
+      listeners.forEach((listener) => listener());
+   };
+
+   return {
+      get: () => tokens,
+      set: (next) => update({ ...next }),
+      clear: () => update(emptyTokens),
+      subscribe: (listener) => {
+         listeners.add(listener);
+         return () => {
+            listeners.delete(listener);
+         };
+      },
+      id: options?.prefix || undefined,
+   };
+};
+
+/*
+ * A TokenStore that keeps the tokens in cookies. The cookies only outlive the
+ * browser session if the user asked to be remembered
+ */
+export const createCookieTokenStore = (options?: CookieTokenStoreOptions): TokenStore => {
+   const prefix = options?.prefix || '';
+   const cache = snapshotCache();
+
+   /* The names are compared encoded, as decoding a malformed name of someone else's cookie would throw */
+   const readCookie = (name: string): string | null => {
+      const encodedName = encodeURIComponent(name);
+      for (const cookie of document.cookie.split(';')) {
+         const [key, ...value] = cookie.trim().split('=');
+         if (key === encodedName) {
+            return decodeURIComponent(value.join('='));
+         }
+      }
+      return null;
+   };
+
+   const writeCookie = (name: string, value: string, maxAge?: number) => {
+      let cookie = `${encodeURIComponent(name)}=${encodeURIComponent(value)}; path=${options?.path || '/'}`;
+      cookie += `; SameSite=${options?.sameSite || 'Strict'}`;
+      if (options?.domain) {
+         cookie += `; domain=${options.domain}`;
+      }
+      if (options?.secure) {
+         cookie += '; Secure';
+      }
+      if (typeof maxAge === 'number') {
+         cookie += `; max-age=${maxAge}`;
+      }
+      document.cookie = cookie;
+   };
+
+   return {
+      get: () => {
+         if (typeof document === 'undefined') {
+            return emptyTokens;
+         }
+         return cache({
+            access_token: readCookie(prefix + 'access_token'),
+            refresh_token: readCookie(prefix + 'refresh_token'),
+            remember: readCookie(prefix + 'remember') === 'true',
+         });
+      },
+      set: (tokens) => {
+         const maxAge = tokens.remember ? (options?.maxAge ?? 30 * 24 * 60 * 60) : undefined;
+         for (const key of ['access_token', 'refresh_token'] as const) {
+            const value = tokens[key];
+            writeCookie(prefix + key, value || '', value ? maxAge : 0);
+         }
+         writeCookie(prefix + 'remember', tokens.remember ? 'true' : 'false', maxAge);
+         notifyTokensChanged();
+      },
+      clear: () => {
+         for (const key of ['access_token', 'refresh_token', 'remember']) {
+            writeCookie(prefix + key, '', 0);
+         }
+         notifyTokensChanged();
+      },
+      subscribe: subscribeToWindow,
+      id: prefix || undefined,
+   };
+};
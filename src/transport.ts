@@ -0,0 +1,127 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * transport.ts: This file contains the helpers for reporting request progress
+ */
+
+import { APIProgress } from './useAPI.types';
+
+/* The statuses that can't have a response body */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/*
+ * Combine a caller's signal with a timeout into a single signal for a request.
+ * Returns the signal, whether the timeout caused the abort, and a function to
+ * stop the timer once the request is complete. The caller's signal can still
+ * abort a streamed body after that, unless detach is set
+ */
+export const requestSignal = (signal?: AbortSignal, timeoutMs?: number) => {
+   if (!signal && !timeoutMs) {
+      return { signal: undefined, timedOut: () => false, done: () => undefined };
+   }
+
+   const controller = new AbortController();
+   let timedOut = false;
+   const onAbort = () => controller.abort(signal?.reason);
+   if (signal?.aborted) {
+      onAbort();
+   }
+   signal?.addEventListener('abort', onAbort);
+   const timer = timeoutMs
+      ? setTimeout(() => {
+           timedOut = true;
+           controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+   return {
+      signal: controller.signal,
+      timedOut: () => timedOut,
+      done: (detach = true) => {
+         clearTimeout(timer);
+         if (detach) {
+            signal?.removeEventListener('abort', onAbort);
+         }
+      },
+   };
+};
+
+/* Parse the raw headers from an XMLHttpRequest */
+const parse_headers = (raw: string): Headers => {
+   const headers = new Headers();
+   for (const line of raw.trim().split(/[\r\n]+/)) {
+      const idx = line.indexOf(':');
+      if (idx > 0) {
+         headers.append(line.slice(0, idx).trim(), line.slice(idx + 1).trim());
+      }
+   }
+   return headers;
+};
+
+/*
+ * Make a request with XMLHttpRequest, since fetch can't report upload progress.
+ * The result is converted to a Response, so it can be handled like a fetch
+ */
+export const xhrFetch = (url: string, init: RequestInit, onUploadProgress: (progress: APIProgress) => void): Promise<Response> => {
+   return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open(init.method || 'GET', url);
+      xhr.responseType = 'blob';
+      for (const [key, value] of Object.entries((init.headers as { [key: string]: string }) || {})) {
+         xhr.setRequestHeader(key, value);
+      }
+      xhr.upload.onprogress = (event) => {
+         onUploadProgress({ direction: 'upload', loaded: event.loaded, total: event.lengthComputable ? event.total : null });
+      };
+      /* The signal may outlive the request, so stop listening to it once the request is done */
+      const onAbort = () => xhr.abort();
+      const settle = () => init.signal?.removeEventListener('abort', onAbort);
+      xhr.onload = () => {
+         settle();
+         const body = NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.response;
+         const headers = parse_headers(xhr.getAllResponseHeaders());
+         resolve(new Response(body, { status: xhr.status, statusText: xhr.statusText, headers }));
+      };
+      xhr.onerror = xhr.ontimeout = () => {
+         settle();
+         reject(new TypeError('Network request failed'));
+      };
+      xhr.onabort = () => {
+         settle();
+         reject(new DOMException('The request was aborted', 'AbortError'));
+      };
+      if (init.signal?.aborted) {
+         reject(new DOMException('The request was aborted', 'AbortError'));
+         return;
+      }
+      init.signal?.addEventListener('abort', onAbort, { once: true });
+      xhr.send((init.body as XMLHttpRequestBodyInit | undefined) ?? null);
+   });
+};
+
+/* Wrap a response so that reading its body reports the download progress */
+export const trackDownload = (resp: Response, onDownloadProgress: (progress: APIProgress) => void): Response => {
+   if (!resp.body || NULL_BODY_STATUSES.includes(resp.status)) {
+      return resp;
+   }
+
+   const total = Number(resp.headers.get('Content-Length')) || null;
+   const reader = resp.body.getReader();
+   let loaded = 0;
+   const body = new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+         const { done, value } = await reader.read();
+         if (done) {
+            controller.close();
+            return;
+         }
+         loaded += value.byteLength;
+         onDownloadProgress({ direction: 'download', loaded, total });
+         controller.enqueue(value);
+      },
+      cancel: (reason) => reader.cancel(reason),
+   });
+   return new Response(body, { status: resp.status, statusText: resp.statusText, headers: resp.headers });
+};
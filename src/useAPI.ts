@@ -6,21 +6,53 @@
  * useAPI.ts: This file contains the useAPI custom hook
  */
 
-import { useCallback, useEffect, useState } from 'react';
-import { jwtDecode } from 'jwt-decode';
-import useLocalStorageState from 'use-local-storage-state';
-import useSessionStorageState from 'use-session-storage-state';
-import { Mutex } from 'async-mutex';
+import { useCallback, useContext, useMemo, useState, useSyncExternalStore } from 'react';
 import {
+   InfiniteData,
+   UseInfiniteQueryResult,
    UseMutationOptions,
    UseQueryOptions,
+   useInfiniteQuery as useReactInfiniteQuery,
    useQuery as useReactQuery,
    useMutation as useReactMutation,
    useQueryClient,
    UseQueryResult,
    UseMutationResult,
 } from '@tanstack/react-query';
-import { APIAuthTokens, APIError, APIRequest, APIResponse, MutationOptions, QueryOptions } from './useAPI.types';
+import APIContext, { authMiddleware, decodeClaims, decodeToken, emptyIdentity } from './APIContext';
+import { firstPageParam, nextPageParam, pageRequest } from './pagination';
+import { buildPath, pathParamNames, pickPathParams } from './path';
+import { buildQueryKey, targetQueryKey } from './queryKey';
+import { resolveRetryPolicy, withRetry } from './retry';
+import { requestSignal, trackDownload, xhrFetch } from './transport';
+import {
+   APIAbortError,
+   APIAuthTokens,
+   APIConfig,
+   APIError,
+   APIErrorDetails,
+   APIMethod,
+   APIMiddleware,
+   APIPage,
+   APINext,
+   APIProgress,
+   APIRequest,
+   APIRequestBody,
+   APIResponse,
+   APIResponseType,
+   MutationOptions,
+   QueryOptions,
+   APITimeoutError,
+   InfiniteQueryOptions,
+   SessionEvents,
+   SessionExpiredError,
+   StandardSchemaV1,
+   StoredTokens,
+   TokenClaims,
+   TokenData,
+   TokenStore,
+   ValidationIssue,
+} from './useAPI.types';
 
 /* Type predicate for APIAuthTokens */
 const isAPIAuthTokens = (val: unknown): val is APIAuthTokens => {
@@ -32,72 +64,236 @@ const isAPIAuthTokens = (val: unknown): val is APIAuthTokens => {
    }
 };
 
-interface TokenData {
-   sub: string;
-   iat: number;
-   exp: number;
-   api: string;
-}
+/* How long (in ms) to wait for the tokens from a refresh in another tab */
+const REFRESH_WAIT_TIMEOUT = 5000;
+
+/* Wait for the tokens in the store to move on from the given refresh token, or for the timeout */
+const next_tokens = (tokenStore: TokenStore, refreshToken: string): Promise<StoredTokens> => {
+   return new Promise((resolve) => {
+      const done = () => {
+         clearTimeout(timer);
+         unsubscribe();
+         resolve(tokenStore.get());
+      };
+      const timer = setTimeout(done, REFRESH_WAIT_TIMEOUT);
+      const unsubscribe = tokenStore.subscribe(() => {
+         if (tokenStore.get().refresh_token !== refreshToken) {
+            done();
+         }
+      });
+   });
+};
+
+/* The methods that send a JSON body by default */
+const BODY_METHODS: APIMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/* Check if the headers include the given one, ignoring case */
+const has_header = (headers: { [key: string]: string } | undefined, name: string): boolean => {
+   return Object.keys(headers || {}).some((key) => key.toLowerCase() === name.toLowerCase());
+};
+
+/* The default Content-Type for a request body. FormData has none, as fetch adds it with the boundary */
+const content_type = (body: APIRequestBody | undefined): string | undefined => {
+   if (typeof FormData !== 'undefined' && body instanceof FormData) {
+      return undefined;
+   }
+   if (typeof Blob !== 'undefined' && body instanceof Blob) {
+      return body.type || 'application/octet-stream';
+   }
+   if (body instanceof URLSearchParams) {
+      return 'application/x-www-form-urlencoded';
+   }
+   return 'application/json';
+};
+
+/* Convert mutation data to a request body. Anything other than FormData, Blob or URLSearchParams is sent as JSON */
+const to_body = (data: unknown): APIRequestBody | undefined => {
+   if (!data) {
+      return undefined;
+   }
+   if (
+      (typeof FormData !== 'undefined' && data instanceof FormData) ||
+      (typeof Blob !== 'undefined' && data instanceof Blob) ||
+      data instanceof URLSearchParams
+   ) {
+      return data;
+   }
+   return JSON.stringify(data);
+};
+
+/* Read a successful response body as the requested type. An empty JSON body (eg. for OPTIONS or a 201) is undefined */
+const read_body = async (resp: Response, responseType: APIResponseType = 'json'): Promise<unknown> => {
+   switch (responseType) {
+      case 'text':
+         return await resp.text();
+      case 'blob':
+         return await resp.blob();
+      case 'arrayBuffer':
+         return await resp.arrayBuffer();
+      case 'stream':
+         return resp.body;
+      default: {
+         const text = await resp.text();
+         return text ? JSON.parse(text) : undefined;
+      }
+   }
+};
 
-/* Mutex for token requests */
-const mutex = new Mutex();
+/* Validate data against a Standard Schema, returning the (possibly transformed) value or the issues */
+const validate_schema = async <T>(
+   schema: StandardSchemaV1<unknown, T>,
+   data: unknown
+): Promise<{ value: T; issues?: undefined } | { issues: ValidationIssue[] }> => {
+   const result = await schema['~standard'].validate(data);
+   if (!result.issues) {
+      return { value: result.value };
+   }
+   return {
+      issues: result.issues.map((issue) => ({
+         message: issue.message,
+         path: (issue.path || []).map((segment) => (typeof segment === 'object' ? segment.key : segment)),
+      })),
+   };
+};
 
-const decode_token = (token: string | undefined | null): TokenData => {
+/* Validate a request body before it is sent, returning the (possibly transformed) value */
+const validate_input = async (
+   config: APIConfig,
+   options: Pick<APIRequest<unknown>, 'method' | 'url' | 'validateInput' | 'inputSchema'>,
+   data: unknown
+): Promise<unknown> => {
+   let issues: ValidationIssue[] | undefined;
+   if (options.validateInput && !options.validateInput(data)) {
+      issues = [];
+   } else if (options.inputSchema) {
+      const result = await validate_schema(options.inputSchema, data);
+      if (!result.issues) {
+         return result.value;
+      }
+      issues = result.issues;
+   }
+   if (issues) {
+      throw new APIError('Request validation failed', -1, {
+         kind: 'validation',
+         body: data,
+         issues,
+         method: options.method,
+         url: resolve_url(config, options.url),
+      });
+   }
+   return data;
+};
+
+/* Read the body of an error response, which may or may not be JSON */
+const read_error_body = async (resp: Response): Promise<unknown> => {
+   const text = await resp.text();
    try {
-      if (token) {
-         return jwtDecode<TokenData>(token);
+      return JSON.parse(text);
+   } catch {
+      return text || undefined;
+   }
+};
+
+/* Prepend the base URL to any URL that isn't already absolute */
+const resolve_url = (config: APIConfig, url: string): string => {
+   if (/^[a-z][a-z\d+.-]*:\/\//i.test(url)) {
+      return url;
+   }
+   return config.baseUrl.replace(/\/+$/, '') + url;
+};
+
+/* The full URL a request is sent to */
+const request_url = (config: APIConfig, options: Pick<APIRequest<unknown>, 'url' | 'params'>): string => {
+   const url = resolve_url(config, options.url);
+   return options.params ? url + '?' + options.params.toString() : url;
+};
+
+/*
+ * Check a response against the request's validators and schema, returning it
+ * with the (possibly transformed) data. This runs on the response the
+ * middleware returns, so it sees the same data as the caller
+ */
+const validate_response = async <T>(
+   options: Pick<APIRequest<T>, 'validate' | 'validateOptional' | 'validateList' | 'schema'>,
+   resp: APIResponse<unknown>,
+   details: APIErrorDetails
+): Promise<APIResponse<T>> => {
+   let data = resp.data;
+   const validationError = (issues?: ValidationIssue[]) => {
+      return new APIError('Response validation failed', resp.code, { kind: 'validation', body: data, issues, ...details });
+   };
+   if (options.validate && !options.validate(data)) {
+      throw validationError();
+   }
+   if (options.validateOptional && typeof data !== 'undefined' && !options.validateOptional(data)) {
+      throw validationError();
+   }
+   if (options.validateList && (!Array.isArray(data) || !data.every((v) => options.validateList && options.validateList(v)))) {
+      throw validationError();
+   }
+   if (options.schema) {
+      const result = await validate_schema(options.schema, data);
+      if (result.issues) {
+         throw validationError(result.issues);
       }
-   } catch (e) {
-      /* Ignore */
+      data = result.value;
    }
-   return { sub: '', iat: 0, exp: 0, api: '' };
+   return { ...resp, data: data as T };
 };
 
-const useAPI = (): {
+const useAPI = <TClaims extends TokenClaims = TokenData>(): {
    request: <T>(options: APIRequest<T>) => Promise<APIResponse<T>>;
    login: (user: string, password: string, remember: boolean) => Promise<APIResponse<APIAuthTokens>>;
    logout: () => Promise<APIResponse<void>>;
+   refresh: () => Promise<void>;
+   events: SessionEvents;
    useQuery: <T>(opts: APIRequest<T> & QueryOptions<T>) => UseQueryResult<APIResponse<T>, APIError>;
+   useInfiniteQuery: <T>(
+      opts: APIRequest<T[]> & InfiniteQueryOptions<T>
+   ) => UseInfiniteQueryResult<InfiniteData<APIPage<T>, number | string | null>, APIError> & { items: T[] };
    useMutationFn: <TInput = void, TOutput = void>(
       fn: (data: TInput) => Promise<APIResponse<TOutput>>,
       mutationOpts?: UseMutationOptions<APIResponse<TOutput>, APIError, TInput, unknown> | undefined
    ) => UseMutationResult<APIResponse<TOutput>, APIError, TInput, unknown>;
    useMutationQuery: <TInput = void, TOutput = void>(
-      opts: APIRequest<TOutput> & MutationOptions<TOutput>
-   ) => UseMutationResult<APIResponse<TOutput>, APIError, TInput, unknown>;
+      opts: APIRequest<TOutput> & MutationOptions<TOutput, TInput>
+   ) => UseMutationResult<APIResponse<TOutput>, APIError, TInput, unknown> & { progress: APIProgress | null };
    asyncQuery: <T>(opts: APIRequest<T>) => Promise<APIResponse<T>>;
+   /* The claims of the access token, or undefined if there is no token or it can't be decoded */
+   claims: TClaims | undefined;
+   authenticated: boolean;
    user: string;
    readwrite: boolean;
+   scopes: string[];
    expiry: number;
 } => {
-   const opts = { serializer: { stringify: String, parse: String } };
-   const [accessTokenLS, setAccessTokenLS, { removeItem: removeAccessTokenLS }] = useLocalStorageState<string>('access_token', opts);
-   const [refreshTokenLS, setRefreshTokenLS, { removeItem: removeRefreshTokenLS }] = useLocalStorageState<string>('refresh_token', opts);
-   const [accessTokenSS, setAccessTokenSS, { removeItem: removeAccessTokenSS }] = useSessionStorageState<string>('access_token', opts);
-   const [refreshTokenSS, setRefreshTokenSS, { removeItem: removeRefreshTokenSS }] = useSessionStorageState<string>('refresh_token', opts);
-   const accessToken = accessTokenLS || accessTokenSS;
-   const refreshToken = refreshTokenLS || refreshTokenSS;
-   const [tokenData, setTokenData] = useState<TokenData>({ sub: '', iat: 0, exp: 0, api: '' });
+   const { config, tokenStore, sessionSync, events, mapClaims, middleware, retry } = useContext(APIContext);
+   const tokens = useSyncExternalStore(tokenStore.subscribe, tokenStore.get, tokenStore.get);
+   const accessToken = tokens.access_token;
+   const refreshToken = tokens.refresh_token;
+   const tokenData = useMemo(() => decodeToken(accessToken), [accessToken]);
+   /* Only a token that could be decoded has claims, so the mapper never sees made up ones */
+   const claims = useMemo(() => decodeClaims<TClaims>(accessToken), [accessToken]);
+   const identity = useMemo(() => (claims ? mapClaims(claims) : emptyIdentity), [claims, mapClaims]);
    const queryClient = useQueryClient();
 
-   /* Update the token data whenever the accessToken changes */
-   useEffect(() => {
-      setTokenData(decode_token(accessToken));
-   }, [accessToken]);
-
    const runRawRequest = useCallback(
       async <T>(options: APIRequest<T>): Promise<APIResponse<T>> => {
          let code = -1;
+         const url = request_url(config, options);
+         const errorDetails = { method: options.method, url };
+         const { signal, timedOut, done } = requestSignal(options.signal, options.timeoutMs);
          try {
-            let url = options.url;
-            if (options.params) {
-               url += '?' + options.params.toString();
+            const init = { method: options.method, headers: options.headers, body: options.body, signal };
+            let resp = options.onUploadProgress ? await xhrFetch(url, init, options.onUploadProgress) : await fetch(url, init);
+            if (options.onDownloadProgress) {
+               resp = trackDownload(resp, options.onDownloadProgress);
             }
-            const resp = await fetch(url, { method: options.method, headers: options.headers, body: options.body });
             code = resp.status;
-            let data;
-            if (code == 204) {
-               if (code == 204 && options.url === '/api/oauth2/token/') {
+            options.onHeaders?.(resp.headers);
+            let data: unknown;
+            if (code == 204 || options.method === 'HEAD') {
+               if (code == 204 && options.url === config.tokenEndpoint) {
                   /* Successfully validated credentials */
                   data = {
                      access_token: accessToken || '',
@@ -108,93 +304,117 @@ const useAPI = (): {
                   data = undefined;
                }
             } else {
-               data = await resp.json();
                if (!resp.ok) {
-                  throw new APIError(data.detail, code);
+                  const body = await read_error_body(resp);
+                  const detail = (body as { detail?: unknown } | undefined)?.detail;
+                  const errmsg = typeof detail === 'string' ? detail : resp.statusText;
+                  throw new APIError(errmsg, code, { body, headers: resp.headers, ...errorDetails });
                }
-            }
-
-            if (options.validate && !options.validate(data)) {
-               throw new APIError('Response validation failed', code);
-            }
-            if (options.validateOptional && typeof data !== 'undefined' && !options.validateOptional(data)) {
-               throw new APIError('Response validation failed', code);
-            }
-            if (options.validateList && (!Array.isArray(data) || !data.every((v) => options.validateList && options.validateList(v)))) {
-               throw new APIError('Response validation failed', code);
+               data = await read_body(resp, options.responseType);
             }
             if (code >= 400) {
-               throw new APIError(resp.statusText, code);
+               throw new APIError(resp.statusText, code, { body: data, headers: resp.headers, ...errorDetails });
             }
             return { data: data as T, code };
          } catch (error) {
-            throw new APIError(error instanceof Error ? error.message : String(error), code);
+            if (error instanceof APIError) {
+               throw error;
+            }
+            if (signal?.aborted) {
+               throw timedOut() ? new APITimeoutError(undefined, errorDetails) : new APIAbortError(undefined, errorDetails);
+            }
+            throw new APIError(error instanceof Error ? error.message : String(error), code, errorDetails);
+         } finally {
+            done(options.responseType !== 'stream');
          }
       },
-      [accessToken, refreshToken]
+      [accessToken, refreshToken, config]
    );
 
    const clear_tokens = useCallback(() => {
-      removeAccessTokenLS();
-      removeRefreshTokenLS();
-      removeAccessTokenSS();
-      removeRefreshTokenSS();
-   }, [removeAccessTokenLS, removeRefreshTokenLS, removeAccessTokenSS, removeRefreshTokenSS]);
+      tokenStore.clear();
+   }, [tokenStore]);
 
    const runTokenRequest = useCallback(
-      async (creds: URLSearchParams): Promise<APIResponse<APIAuthTokens>> => {
-         const resp = await mutex.runExclusive(async () => {
+      async (creds: URLSearchParams, staleToken?: string): Promise<APIResponse<APIAuthTokens>> => {
+         const resp = await sessionSync.runExclusive(async () => {
             /*
-             * Check if the current local/session token is valid before trying
-             * to get a new one. Another token request may have already got a new
-             * token, so don't get another one
+             * Check if the current stored token is valid before trying to get a
+             * new one. Another token request (possibly in another tab) may have
+             * already got a new token, so don't get another one. A stale token
+             * (eg. one the server has rejected) is never reused, even if it
+             * hasn't expired yet
              */
-            const current_access_token = localStorage.getItem('access_token') || sessionStorage.getItem('access_token');
-            const current_refresh_token = localStorage.getItem('refresh_token') || sessionStorage.getItem('refresh_token');
-            const accessTokenData = decode_token(current_access_token);
-            clear_tokens();
+            const usedRefreshToken = creds.get('refresh_token');
+            let current = tokenStore.get();
+            if (usedRefreshToken && current.refresh_token === usedRefreshToken && sessionSync.wasRefreshed(usedRefreshToken)) {
+               /* Another tab has already used the refresh token, but its new tokens haven't arrived yet */
+               current = await next_tokens(tokenStore, usedRefreshToken);
+            }
+            if (usedRefreshToken && !current.refresh_token) {
+               /* The session ended (eg. by a logout in another tab) while waiting for the lock */
+               throw new APIError('Missing refresh token', 401);
+            }
+            const { access_token: current_access_token, refresh_token: current_refresh_token } = current;
+            const accessTokenData = decodeToken(current_access_token);
+            const rotated = !!usedRefreshToken && current_refresh_token !== usedRefreshToken;
+            /* The current tokens are kept until the request settles, so the session stays authenticated while it refreshes */
             const resp =
-               accessTokenData.exp > Date.now() / 1000
+               current_access_token && (rotated || (accessTokenData.exp > Date.now() / 1000 && current_access_token !== staleToken))
                   ? await Promise.resolve({
                        code: 200,
                        data: { access_token: current_access_token, refresh_token: current_refresh_token, token_type: 'bearer' },
                     } as APIResponse<APIAuthTokens>)
-                  : await runRawRequest<APIAuthTokens>({
-                       method: 'POST',
-                       url: '/api/oauth2/token/',
-                       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-                       body: creds.toString(),
-                       validate: isAPIAuthTokens,
-                    });
-
-            if (creds.get('remember') === 'true') {
-               setAccessTokenLS(resp.data.access_token);
-               setRefreshTokenLS(resp.data.refresh_token);
-            } else {
-               setAccessTokenSS(resp.data.access_token);
-               setRefreshTokenSS(resp.data.refresh_token);
+                  : await validate_response<APIAuthTokens>(
+                       { validate: isAPIAuthTokens },
+                       await runRawRequest({
+                          method: 'POST',
+                          url: config.tokenEndpoint,
+                          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                          body: creds.toString(),
+                       }),
+                       { method: 'POST', url: resolve_url(config, config.tokenEndpoint) }
+                    );
+
+            const tokens = {
+               access_token: resp.data.access_token,
+               refresh_token: resp.data.refresh_token,
+               remember: creds.get('remember') === 'true',
+            };
+            if (usedRefreshToken && tokens.refresh_token !== usedRefreshToken) {
+               sessionSync.markRefreshed(usedRefreshToken);
             }
+            tokenStore.set(tokens);
+            sessionSync.publish({ type: 'tokens', tokens });
 
             return resp;
          });
 
          return resp;
       },
-      [runRawRequest, setAccessTokenLS, setAccessTokenSS, setRefreshTokenSS, setRefreshTokenLS, clear_tokens]
+      [runRawRequest, tokenStore, sessionSync, config]
    );
 
    const login = useCallback(
       async (user: string, password: string, remember: boolean) => {
-         return await runTokenRequest(
-            new URLSearchParams({
-               username: user,
-               password,
-               remember: remember ? 'true' : 'false',
-               grant_type: 'password',
-            })
-         );
+         let resp: APIResponse<APIAuthTokens>;
+         try {
+            resp = await runTokenRequest(
+               new URLSearchParams({
+                  username: user,
+                  password,
+                  remember: remember ? 'true' : 'false',
+                  [config.grantTypeField]: config.passwordGrantType,
+               })
+            );
+         } catch (error) {
+            clear_tokens();
+            throw error;
+         }
+         events.emit({ type: 'login', tokenData: decodeToken(resp.data.access_token) });
+         return resp;
       },
-      [runTokenRequest]
+      [runTokenRequest, clear_tokens, events, config]
    );
 
    const logout = useCallback(async () => {
@@ -202,65 +422,170 @@ const useAPI = (): {
       if (refreshToken) {
          resp = runRawRequest<void>({
             method: 'POST',
-            url: '/api/oauth2/logout/',
+            url: config.logoutEndpoint,
             headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
             body: new URLSearchParams({
                refresh_token: refreshToken,
-               grant_type: 'refresh_token',
+               [config.grantTypeField]: config.refreshGrantType,
             }).toString(),
          });
       }
       await resp;
       clear_tokens();
+      sessionSync.publish({ type: 'logout' });
+      events.emit({ type: 'logout', tokenData });
       return resp;
-   }, [clear_tokens, runRawRequest, refreshToken]);
+   }, [clear_tokens, runRawRequest, sessionSync, events, refreshToken, tokenData, config]);
 
-   const request = useCallback(
-      async <T>(options: APIRequest<T>): Promise<APIResponse<T>> => {
+   /*
+    * Refresh the tokens, returning the new access token. The tokens are cleared
+    * if it fails, unless keepOnTransientError is set and the server couldn't be
+    * reached (or had an internal error), so the caller can try again later
+    */
+   const refreshSession = useCallback(
+      async (refresh_token: string, staleToken?: string, keepOnTransientError = false): Promise<string> => {
+         const previous = tokenStore.get();
+         try {
+            const tokResp = await runTokenRequest(
+               new URLSearchParams({
+                  refresh_token,
+                  remember: tokens.remember ? 'true' : 'false',
+                  [config.grantTypeField]: config.refreshGrantType,
+               }),
+               staleToken
+            );
+            events.emit({ type: 'refresh', tokenData: decodeToken(tokResp.data.access_token) });
+            return tokResp.data.access_token;
+         } catch (error) {
+            const previousTokenData = decodeToken(previous.access_token);
+            const apiError = error instanceof APIError ? error : new APIError(String(error), -1);
+            events.emit({ type: 'refreshFailed', tokenData: previousTokenData, error: apiError });
+            if (keepOnTransientError && (apiError.code === -1 || apiError.code >= 500)) {
+               throw error;
+            }
+            clear_tokens();
+            sessionSync.publish({ type: 'logout' });
+            const expiredError = new SessionExpiredError();
+            events.emit({ type: 'sessionExpired', tokenData: previousTokenData, error: expiredError });
+            throw expiredError;
+         }
+      },
+      [runTokenRequest, clear_tokens, tokenStore, sessionSync, events, tokens, config]
+   );
+
+   /* Get new tokens now, regardless of when the current ones expire */
+   const refresh = useCallback(async () => {
+      const { access_token, refresh_token } = tokenStore.get();
+      if (!refresh_token) {
+         throw new APIError('Missing refresh token', 401);
+      }
+      await refreshSession(refresh_token, access_token || undefined, true);
+   }, [refreshSession, tokenStore]);
+
+   /* The built-in middleware that authenticates the request, refreshing the tokens if needed */
+   const auth = useCallback<APIMiddleware>(
+      async (options, next) => {
+         if (options.auth === false || has_header(options.headers, 'Authorization')) {
+            return next(options);
+         }
          if (!accessToken) {
             throw new APIError('Missing access token', 401);
          }
-         if (!options.headers) {
-            options.headers = {
-               Authorization: `Bearer ${accessToken}`,
-            };
-            if (options.method !== 'GET') {
-               options.headers['Content-Type'] = 'application/json';
-            }
-         }
+         const send = (token: string) => next({ ...options, headers: { Authorization: `Bearer ${token}`, ...options.headers } });
 
+         let token = accessToken;
          if (tokenData.exp - 10 < Date.now() / 1000 && refreshToken) {
             /* Token has expired (or will within 10 seconds), refresh it */
-            const tokResp = await runTokenRequest(
-               new URLSearchParams({
-                  refresh_token: refreshToken,
-                  remember: accessTokenLS ? 'true' : 'false',
-                  grant_type: 'refresh_token',
-               })
-            );
-            options.headers.Authorization = `Bearer ${tokResp.data.access_token}`;
+            token = await refreshSession(refreshToken);
+         }
+
+         try {
+            return await send(token);
+         } catch (error) {
+            if (!(error instanceof APIError) || error.code !== 401 || !refreshToken) {
+               throw error;
+            }
+
+            /* The server rejected the token before it expired, so refresh it and try once more */
+            const latestRefreshToken = tokenStore.get().refresh_token || refreshToken;
+            return await send(await refreshSession(latestRefreshToken, token));
          }
+      },
+      [refreshSession, tokenStore, refreshToken, accessToken, tokenData]
+   );
 
-         return await runRawRequest<T>(options);
+   /* Pass the request through the middleware chain, ending with the raw request */
+   const runMiddleware = useCallback(
+      <T>(options: APIRequest<T>): Promise<APIResponse<T>> => {
+         const chain = middleware.includes(authMiddleware)
+            ? middleware.map((step) => (step === authMiddleware ? auth : step))
+            : [auth, ...middleware];
+         const dispatch =
+            (index: number): APINext =>
+            (req) =>
+               index < chain.length ? chain[index](req, dispatch(index + 1)) : runRawRequest(req);
+         return dispatch(0)(options) as Promise<APIResponse<T>>;
       },
-      [runRawRequest, runTokenRequest, refreshToken, accessToken, accessTokenLS, tokenData]
+      [middleware, auth, runRawRequest]
    );
 
-   const useQuery = <T>(opts: APIRequest<T> & QueryOptions<T>) => {
-      const queryKey = [opts.method, opts.url];
-      if (opts.params) {
-         for (const [key, value] of opts.params) {
-            queryKey.push(key);
-            queryKey.push(value);
+   const request = useCallback(
+      async <T>(options: APIRequest<T>): Promise<APIResponse<T>> => {
+         try {
+            const { validateInput, inputSchema, input, ...rest } = options;
+            /* A template is always filled in, so one that is missing its params fails rather than being sent as is */
+            rest.url = buildPath(rest.url, rest.pathParams || {});
+            if ((validateInput || inputSchema) && 'input' in options) {
+               await validate_input(config, options, input);
+            } else if (validateInput || inputSchema) {
+               /* JSON bodies are validated as the value they encode, and re-encoded in case the schema transformed them */
+               let json = false;
+               let data: unknown = rest.body;
+               if (typeof data === 'string') {
+                  try {
+                     data = JSON.parse(data);
+                     json = true;
+                  } catch {
+                     /* Not JSON, so validate the raw string */
+                  }
+               }
+               data = await validate_input(config, options, data);
+               rest.body = json ? JSON.stringify(data) : (data as APIRequestBody | undefined);
+            }
+            /* The caller's headers are never modified, and any they give take precedence over the defaults */
+            const contentType = BODY_METHODS.includes(rest.method) && content_type(rest.body);
+            if (contentType && !has_header(rest.headers, 'Content-Type')) {
+               rest.headers = { 'Content-Type': contentType, ...rest.headers };
+            }
+            /* The response headers are kept for validation errors */
+            let headers: Headers | undefined;
+            const onHeaders = rest.onHeaders;
+            rest.onHeaders = (value) => {
+               headers = value;
+               onHeaders?.(value);
+            };
+            const policy = resolveRetryPolicy(retry, rest.retry);
+            const resp = policy ? await withRetry(rest, policy, () => runMiddleware<T>(rest)) : await runMiddleware<T>(rest);
+            return await validate_response(rest, resp, { headers, method: rest.method, url: request_url(config, rest) });
+         } catch (error) {
+            /* An expired session has already been reported by refreshSession */
+            if (error instanceof APIError && error.code === 401 && !(error instanceof SessionExpiredError)) {
+               events.emit({ type: 'unauthorized', tokenData, error });
+            }
+            throw error;
          }
-      }
+      },
+      [runMiddleware, events, tokenData, config, retry]
+   );
 
+   const useQuery = <T>(opts: APIRequest<T> & QueryOptions<T>) => {
+      const queryKey = buildQueryKey(opts);
       const { enabled, runOnce, onSuccess, ...apiOpts } = opts;
       const queryOpts: UseQueryOptions<APIResponse<T>, APIError> = {
          queryKey,
          enabled,
-         queryFn: async () => {
-            const resp = await request<T>(apiOpts);
+         queryFn: async ({ signal }) => {
+            const resp = await request<T>({ ...apiOpts, signal: apiOpts.signal || signal });
             if (onSuccess) {
                onSuccess(resp.data);
             }
@@ -271,12 +596,65 @@ const useAPI = (): {
          queryOpts.staleTime = Infinity;
          queryOpts.gcTime = Infinity;
          queryOpts.retry = 0;
+      } else if (resolveRetryPolicy(retry, apiOpts.retry)) {
+         /* The request retries itself, so react-query shouldn't as well */
+         queryOpts.retry = 0;
       }
       const query = useReactQuery<APIResponse<T>, APIError>(queryOpts);
 
       return query;
    };
 
+   const useInfiniteQuery = <T>(opts: APIRequest<T[]> & InfiniteQueryOptions<T>) => {
+      const { enabled, pagination, items: getItems, validateList, ...apiOpts } = opts;
+      const query = useReactInfiniteQuery<
+         APIPage<T>,
+         APIError,
+         InfiniteData<APIPage<T>, number | string | null>,
+         readonly unknown[],
+         number | string | null
+      >({
+         /* Pages are cached separately from a plain query of the same request */
+         queryKey: opts.queryKey || [...buildQueryKey(opts), 'infinite'],
+         enabled,
+         initialPageParam: firstPageParam(pagination),
+         queryFn: async ({ pageParam, signal }) => {
+            let headers: Headers | undefined;
+            const pageOpts = pageRequest(pagination, { ...apiOpts, signal: apiOpts.signal || signal }, pageParam);
+            /* The URL the page was fetched from, which a relative next link is resolved against */
+            const url = resolve_url(config, buildPath(pageOpts.url, pageOpts.pathParams || {}));
+            const resp = await request<unknown>({
+               ...(pageOpts as APIRequest<unknown>),
+               onHeaders: (pageHeaders) => {
+                  headers = pageHeaders;
+                  apiOpts.onHeaders?.(pageHeaders);
+               },
+            });
+            const items: unknown = getItems ? getItems(resp.data) : resp.data;
+            if (!Array.isArray(items) || (validateList && !items.every((item) => validateList(item)))) {
+               throw new APIError('Response validation failed', resp.code, {
+                  kind: 'validation',
+                  body: resp.data,
+                  headers,
+                  method: pageOpts.method,
+                  url,
+               });
+            }
+            return {
+               code: resp.code,
+               data: resp.data,
+               items: items as T[],
+               next: nextPageParam(pagination, pageParam, { data: resp.data, items, headers, url }),
+            };
+         },
+         getNextPageParam: (lastPage) => lastPage.next,
+         /* The request retries itself, so react-query shouldn't as well */
+         ...(resolveRetryPolicy(retry, apiOpts.retry) && { retry: 0 }),
+      });
+      const items = useMemo(() => query.data?.pages.flatMap((page) => page.items) || [], [query.data]);
+      return { ...query, items };
+   };
+
    const useMutationFn = <TInput = void, TOutput = void>(
       fn: (data: TInput) => Promise<APIResponse<TOutput>>,
       mutationOpts?: UseMutationOptions<APIResponse<TOutput>, APIError, TInput>
@@ -287,35 +665,78 @@ const useAPI = (): {
       });
    };
 
-   const useMutationQuery = <TInput = void, TOutput = void>(opts: APIRequest<TOutput> & MutationOptions<TOutput>) => {
-      const { onSuccess, onError, ...apiOpts } = opts;
-      return useMutationFn(
+   const useMutationQuery = <TInput = void, TOutput = void>(opts: APIRequest<TOutput> & MutationOptions<TOutput, TInput>) => {
+      const { onSuccess, onError, trackProgress, invalidates, optimistic, toRequest, validateInput, inputSchema, ...apiOpts } = opts;
+      const [progress, setProgress] = useState<APIProgress | null>(null);
+      const mutation = useMutationFn<TInput, TOutput>(
          useCallback(
-            (data: TInput) => {
-               const body = data ? JSON.stringify(data) : undefined;
-               return request<TOutput>({ ...apiOpts, body });
+            async (data: TInput) => {
+               /* The variables are validated before they are serialised, so the request itself is sent as-is */
+               const variables = (await validate_input(config, { ...apiOpts, validateInput, inputSchema }, data)) as TInput;
+               /* Any path params that aren't given are taken from the variables, eg. :id from { id: 5, ... } */
+               const pathParams =
+                  pathParamNames(apiOpts.url).length > 0
+                     ? { ...pickPathParams(apiOpts.url, variables), ...apiOpts.pathParams }
+                     : apiOpts.pathParams;
+               const mutationOpts = { ...apiOpts, pathParams, ...(toRequest ? toRequest(variables) : { body: to_body(variables) }) };
+               if (!trackProgress) {
+                  return request<TOutput>(mutationOpts);
+               }
+               setProgress(null);
+               const onProgress = (handler?: (progress: APIProgress) => void) => (progress: APIProgress) => {
+                  setProgress(progress);
+                  handler?.(progress);
+               };
+               return request<TOutput>({
+                  ...mutationOpts,
+                  onUploadProgress: onProgress(apiOpts.onUploadProgress),
+                  onDownloadProgress: onProgress(apiOpts.onDownloadProgress),
+               });
             },
-            [apiOpts]
+            [apiOpts, trackProgress, toRequest, validateInput, inputSchema]
          ),
          {
-            ...(onSuccess && { onSuccess: (resp: APIResponse<TOutput>) => onSuccess(resp.data) }),
-            onError,
+            onMutate: async (variables) => {
+               if (!optimistic) {
+                  return undefined;
+               }
+               /* Stop any fetches in flight from overwriting the update, and keep a snapshot to roll back to */
+               const queryKey = targetQueryKey(optimistic.target);
+               await queryClient.cancelQueries({ queryKey });
+               const snapshot = queryClient.getQueriesData<APIResponse<unknown>>({ queryKey });
+               queryClient.setQueriesData<APIResponse<unknown>>({ queryKey }, (cached) =>
+                  cached && 'data' in cached ? { ...cached, data: optimistic.update(cached.data, variables) } : cached
+               );
+               return snapshot;
+            },
+            onSuccess: (resp) => {
+               for (const target of invalidates || []) {
+                  queryClient.invalidateQueries({ queryKey: targetQueryKey(target) });
+               }
+               onSuccess?.(resp.data);
+            },
+            onError: (error, _variables, snapshot) => {
+               for (const [queryKey, data] of (snapshot as [readonly unknown[], unknown][] | undefined) || []) {
+                  queryClient.setQueryData(queryKey, data);
+               }
+               onError?.(error);
+            },
+            onSettled: () => {
+               /* Get the server's version of the optimistically updated data */
+               if (optimistic) {
+                  queryClient.invalidateQueries({ queryKey: targetQueryKey(optimistic.target) });
+               }
+            },
          }
       );
+      return { ...mutation, progress } as UseMutationResult<APIResponse<TOutput>, APIError, TInput> & { progress: APIProgress | null };
    };
 
    const asyncQuery = <T>(opts: APIRequest<T>) => {
-      const queryKey = [opts.method, opts.url];
-      if (opts.params) {
-         for (const [key, value] of opts.params) {
-            queryKey.push(key);
-            queryKey.push(value);
-         }
-      }
-
+      const queryKey = buildQueryKey(opts);
       const queryOpts: UseQueryOptions<APIResponse<T>, APIError> = {
          queryKey,
-         queryFn: async () => await request<T>(opts),
+         queryFn: async ({ signal }) => await request<T>({ ...opts, signal: opts.signal || signal }),
       };
       return queryClient.fetchQuery(queryOpts);
    };
@@ -324,12 +745,18 @@ const useAPI = (): {
       request,
       login,
       logout,
+      refresh,
+      events,
       useQuery,
+      useInfiniteQuery,
       useMutationFn,
       useMutationQuery,
       asyncQuery,
-      user: tokenData.sub,
-      readwrite: tokenData.api === 'rw',
+      claims,
+      authenticated: !!accessToken,
+      user: identity.user,
+      readwrite: identity.readwrite,
+      scopes: identity.scopes,
       expiry: tokenData.exp,
    };
 };
@@ -6,35 +6,217 @@
  * useAPI.types.ts: This file contains the exported types for useAPI
  */
 
+/* A validator that implements the Standard Schema spec (https://standardschema.dev), eg. Zod or Valibot */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+   readonly '~standard': {
+      readonly version: 1;
+      readonly vendor: string;
+      readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+      readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+   };
+}
+
+/* The result of validating with a Standard Schema */
+export type StandardSchemaResult<Output> =
+   { readonly value: Output; readonly issues?: undefined } | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/* A problem reported by a Standard Schema */
+export interface StandardSchemaIssue {
+   readonly message: string;
+   readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
+
+/* A problem found when validating data against a schema */
+export interface ValidationIssue {
+   message: string;
+   path: PropertyKey[];
+}
+
+/* What went wrong to cause an APIError */
+export type APIErrorKind = 'network' | 'timeout' | 'aborted' | 'http' | 'validation' | 'auth';
+
+/* The extra information about an APIError */
+export interface APIErrorDetails {
+   /* Defaults to network for code -1, auth for 401/403, validation for 422 and http otherwise */
+   kind?: APIErrorKind;
+   /* The parsed response body */
+   body?: unknown;
+   headers?: Headers;
+   method?: string;
+   url?: string;
+   /* The problems found by a schema */
+   issues?: ValidationIssue[];
+}
+
 /* An Error object returned when the code is not 2XX */
 export class APIError extends Error {
    code: number;
+   kind: APIErrorKind;
+   body?: unknown;
+   headers?: Headers;
+   method?: string;
+   url?: string;
+   issues?: ValidationIssue[];
+   /* How many times the request was sent, when a retry policy applied */
+   attempts?: number;
 
-   constructor(errmsg: string, code: number) {
+   constructor(errmsg: string, code: number, details?: APIErrorDetails) {
       super(errmsg);
       this.name = 'APIError';
       this.code = code;
+      this.kind = details?.kind || (code === -1 ? 'network' : code === 401 || code === 403 ? 'auth' : code === 422 ? 'validation' : 'http');
+      this.body = details?.body;
+      this.headers = details?.headers;
+      this.method = details?.method;
+      this.url = details?.url;
+      this.issues = details?.issues;
+   }
+}
+
+/* The APIError thrown when a request is aborted by its signal */
+export class APIAbortError extends APIError {
+   constructor(errmsg = 'Request aborted', details?: APIErrorDetails) {
+      super(errmsg, -1, { ...details, kind: 'aborted' });
+      this.name = 'APIAbortError';
+   }
+}
+
+/* The APIError thrown when a request takes longer than its timeout */
+export class APITimeoutError extends APIError {
+   constructor(errmsg = 'Request timed out', details?: APIErrorDetails) {
+      super(errmsg, -1, { ...details, kind: 'timeout' });
+      this.name = 'APITimeoutError';
+   }
+}
+
+/* The APIError thrown when the session has ended because the tokens could not be refreshed */
+export class SessionExpiredError extends APIError {
+   constructor(errmsg = 'Session expired') {
+      super(errmsg, 401, { kind: 'auth' });
+      this.name = 'SessionExpiredError';
    }
 }
 
+/* A FastAPI style validation error for a single field */
+export interface ValidationErrorDetail {
+   loc: (string | number)[];
+   msg: string;
+   type: string;
+}
+
+/* Type predicate for an APIError, optionally of a given kind */
+export const isAPIError = <K extends APIErrorKind>(error: unknown, kind?: K): error is APIError & { kind: K } => {
+   return error instanceof APIError && (!kind || error.kind === kind);
+};
+
+/* Type predicate for a validation APIError whose body has a FastAPI style list of field errors */
+export const isValidationError = (
+   error: unknown
+): error is APIError & { kind: 'validation'; body: { detail: ValidationErrorDetail[] } } => {
+   if (!isAPIError(error, 'validation')) {
+      return false;
+   }
+   const detail = (error.body as { detail?: unknown } | undefined)?.detail;
+   return Array.isArray(detail) && detail.every((item) => Array.isArray(item?.loc) && typeof item?.msg === 'string');
+};
+
+/* The HTTP methods that can be used for a request */
+export type APIMethod = 'GET' | 'HEAD' | 'OPTIONS' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/* The types of body that can be sent with a request */
+export type APIRequestBody = string | FormData | Blob | URLSearchParams;
+
+/* How the response body is read (default: json) */
+export type APIResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer' | 'stream';
+
+/* The progress of sending a request body or receiving a response body */
+export interface APIProgress {
+   direction: 'upload' | 'download';
+   loaded: number;
+   /* The total number of bytes, if known */
+   total: number | null;
+}
+
 /* An API request that is expected to response with T */
 export interface APIRequest<T> {
-   method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+   method: APIMethod;
+   /* The URL, or a template with :name segments that are filled in from pathParams */
    url: string;
+   /* The values of the template's :name segments, which are encoded */
+   pathParams?: { [name: string]: string | number };
+   /* Merged over the default headers, so these take precedence */
    headers?: { [key: string]: string };
+   /* Set to false for public endpoints, to send the request without the access token */
+   auth?: boolean;
    params?: URLSearchParams;
-   body?: string;
+   /* The react-query key for the request, instead of the one from buildQueryKey */
+   queryKey?: readonly unknown[];
+   body?: APIRequestBody;
+   responseType?: APIResponseType;
+   /* Called as the body is sent. This uses XMLHttpRequest instead of fetch */
+   onUploadProgress?: (progress: APIProgress) => void;
+   /* Called as the response body is received */
+   onDownloadProgress?: (progress: APIProgress) => void;
+   /* Called with the response headers as soon as they arrive */
+   onHeaders?: (headers: Headers) => void;
+   /* Aborts the request */
+   signal?: AbortSignal;
+   /* How long (in ms) to wait for the response before aborting the request */
+   timeoutMs?: number;
+   /* Overrides the provider's retry policy for this request (false to never retry) */
+   retry?: RetryPolicy | boolean;
+   /* Marks a request that changes data as safe to repeat, so it can be retried */
+   idempotent?: boolean;
    validate?: (data: unknown) => data is T;
    validateOptional?: (data: unknown) => data is T;
    validateList?: (data: unknown) => data is T extends Array<infer U> ? U : null;
+   /* A Standard Schema to validate (and possibly transform) the response data with, after any middleware */
+   schema?: StandardSchemaV1<unknown, T>;
+   /* Checked against the request body (parsed, if it is JSON) before anything is sent */
+   validateInput?: (data: unknown) => boolean;
+   /* A Standard Schema to validate (and possibly transform) the request body with before it is sent */
+   inputSchema?: StandardSchemaV1;
+   /*
+    * The value the request was built from, eg. by an endpoint. If given, it is
+    * checked by validateInput and inputSchema instead of the body (which is sent as it is)
+    */
+   input?: unknown;
 }
 
 /* An API response containing T */
 export interface APIResponse<T> {
    code: number;
    data: T;
+   /* How many times the request was sent, when a retry policy applied */
+   attempts?: number;
 }
 
+/* How to retry requests that fail for a (probably) transient reason */
+export interface RetryPolicy {
+   /* The most times to send a request, including the first (default: 3) */
+   maxAttempts?: number;
+   /* The delay (in ms) before the first retry, doubling for each one after (default: 500) */
+   minDelay?: number;
+   /* The longest delay (in ms) between attempts, including any from Retry-After (default: 30000) */
+   maxDelay?: number;
+   /* Randomise the delays, so clients don't all retry at once (default: true) */
+   jitter?: boolean;
+   /* Whether to retry after an error (default: network errors, 408, 429 and 5xx) */
+   retryOn?: (error: APIError, attempt: number) => boolean;
+   /* Called before each retry, with the attempt that failed */
+   onRetry?: (attempt: number, error: APIError, delay: number) => void;
+}
+
+/* Passes a request on to the rest of the middleware chain, and eventually the server */
+export type APINext = (request: APIRequest<unknown>) => Promise<APIResponse<unknown>>;
+
+/*
+ * A step in the request pipeline. It can rewrite the request before passing it
+ * to next, return a response without calling next at all, or transform the
+ * response (or error) that next produces
+ */
+export type APIMiddleware = (request: APIRequest<unknown>, next: APINext) => Promise<APIResponse<unknown>>;
+
 /* The options to use for react-query useQuery */
 export interface QueryOptions<T> {
    enabled?: boolean;
@@ -42,10 +224,86 @@ export interface QueryOptions<T> {
    onSuccess?: (data: T) => void;
 }
 
+/*
+ * How to get each page of a list:
+ *  - offset: sends offset and limit params, and stops at the first short page
+ *  - cursor: sends the cursor the previous page's body gave, and stops when it gives none
+ *  - link: follows the rel="next" URL of the RFC 5988 Link header, and stops when there is none
+ */
+export type PageStrategy =
+   | { type: 'offset'; limit: number; offsetParam?: string; limitParam?: string }
+   | { type: 'cursor'; nextCursor: (data: unknown) => string | null | undefined; cursorParam?: string }
+   | { type: 'link' };
+
+/* The options to use for react-query useInfiniteQuery */
+export interface InfiniteQueryOptions<T> {
+   enabled?: boolean;
+   pagination: PageStrategy;
+   /* Gets the items from a page's body (default: the body itself, which must be an array) */
+   items?: (data: unknown) => T[];
+}
+
+/* A page of a list, with the offset, cursor or URL of the page after it */
+export interface APIPage<T> {
+   code: number;
+   data: unknown;
+   items: T[];
+   next?: number | string;
+}
+
+/* Identifies cached queries, either by the request that fetched them or by a query key (prefix) */
+export type QueryTarget = APIRequest<unknown> | readonly unknown[];
+
+/* Changes the data of cached queries while a mutation is in flight */
+export interface OptimisticUpdate<TInput> {
+   target: QueryTarget;
+   /* Returns the new data for a query, given its current data and the mutation's variables */
+   update: (data: unknown, variables: TInput) => unknown;
+}
+
 /* The options to use for react-query useMutation */
-export interface MutationOptions<T> {
+export interface MutationOptions<T, TInput = unknown> {
    onSuccess?: (data: T) => void;
    onError?: (error: APIError) => void;
+   /* Track the upload and download progress of the mutation, so it is available as progress */
+   trackProgress?: boolean;
+   /* The queries to invalidate once the mutation succeeds */
+   invalidates?: QueryTarget[];
+   /* Update the cached data straight away, and roll it back if the mutation fails */
+   optimistic?: OptimisticUpdate<TInput>;
+   /* Builds the request's path params, params and body from the variables (default: the variables are the body) */
+   toRequest?: (variables: TInput) => Pick<APIRequest<T>, 'pathParams' | 'params' | 'body'>;
+}
+
+/*
+ * An endpoint, declared once with defineEndpoint and used through createAPI.
+ * The input is what the endpoint is called with, and the output is the data it
+ * responds with, which can be inferred from validate or schema
+ */
+export interface EndpointDefinition<TInput = void, TOutput = unknown> extends Omit<
+   APIRequest<TOutput>,
+   | 'pathParams'
+   | 'params'
+   | 'body'
+   | 'signal'
+   | 'queryKey'
+   | 'inputSchema'
+   | 'input'
+   | 'onUploadProgress'
+   | 'onDownloadProgress'
+   | 'onHeaders'
+> {
+   /* A Standard Schema to validate the input with (a mutation sends the transformed input) */
+   inputSchema?: StandardSchemaV1<unknown, TInput>;
+   /*
+    * Builds the request from the input (default: the path params are taken
+    * from the input, and the rest of it is the params of a query or the body of a mutation)
+    */
+   toRequest?: (input: TInput) => Pick<APIRequest<TOutput>, 'pathParams' | 'params' | 'body'>;
+   /* The options for useQuery, eg. runOnce */
+   query?: QueryOptions<TOutput>;
+   /* The options for useMutation, eg. invalidates */
+   mutation?: MutationOptions<TOutput, TInput>;
 }
 
 /* The credentials returned be the API for a successful login or token refresh */
@@ -54,3 +312,129 @@ export interface APIAuthTokens {
    refresh_token: string;
    token_type: 'bearer';
 }
+
+/* The configuration of the API endpoints and session handling */
+export interface APIConfig {
+   /* Prepended to every relative request URL (eg. 'https://example.com') */
+   baseUrl: string;
+   /* The endpoint used for login and token refreshes */
+   tokenEndpoint: string;
+   /* The endpoint used to revoke the refresh token on logout */
+   logoutEndpoint: string;
+   /* The name of the form field that holds the grant type */
+   grantTypeField: string;
+   /* The grant type sent with a username/password login */
+   passwordGrantType: string;
+   /* The grant type sent with a token refresh or logout */
+   refreshGrantType: string;
+   /* Whether token refreshes, logins and logouts are coordinated across browser tabs */
+   crossTabSync: boolean;
+   /* The name of the channel and lock used for cross-tab sync. Must differ between API clients (default: from the token store's id) */
+   syncName: string;
+   /* Refresh the tokens in the background before they expire (default: false) */
+   autoRefresh: boolean | AutoRefreshOptions;
+}
+
+/* The options for refreshing the tokens in the background */
+export interface AutoRefreshOptions {
+   /* How long (in seconds) before the access token expires to refresh it (default: 60) */
+   margin?: number;
+   /* How long (in seconds) to wait before retrying after the first failure (default: 5) */
+   minBackoff?: number;
+   /* The longest (in seconds) to wait between retries after repeated failures (default: 300) */
+   maxBackoff?: number;
+   /* The shortest time (in seconds) between refreshes, for tokens that don't outlive the margin (default: 10) */
+   minInterval?: number;
+}
+
+/* The tokens held by a TokenStore */
+export interface StoredTokens {
+   access_token: string | null;
+   refresh_token: string | null;
+   /* Whether the tokens should persist beyond the current session */
+   remember: boolean;
+}
+
+/* A backend for storing the auth tokens */
+export interface TokenStore {
+   /* Get the current tokens. Must return the same object until the tokens change */
+   get: () => StoredTokens;
+   set: (tokens: StoredTokens) => void;
+   clear: () => void;
+   /* Register a listener for token changes, returning a function to unregister it */
+   subscribe: (listener: () => void) => () => void;
+   /* Identifies the tokens in the store (eg. its prefix), so separate API clients don't share their cross-tab sync */
+   id?: string;
+}
+
+/* The options for the TokenStore implementations */
+export interface TokenStoreOptions {
+   /* Prepended to the storage keys, so that multiple clients don't collide (default: '') */
+   prefix?: string;
+}
+
+/* The options for the cookie TokenStore */
+export interface CookieTokenStoreOptions extends TokenStoreOptions {
+   path?: string;
+   domain?: string;
+   secure?: boolean;
+   sameSite?: 'Strict' | 'Lax' | 'None';
+   /* The lifetime (in seconds) of the cookies when remember is set (default: 30 days) */
+   maxAge?: number;
+}
+
+/* The standard claims decoded from the access token, plus any others the backend adds */
+export interface TokenClaims {
+   sub: string;
+   iat: number;
+   exp: number;
+   [claim: string]: unknown;
+}
+
+/* The claims decoded from the access token, when no other claims type is given */
+export interface TokenData extends TokenClaims {
+   api: string;
+}
+
+/* Who the user is and what they may do, as mapped from the token claims */
+export interface SessionIdentity {
+   user: string;
+   readwrite: boolean;
+   scopes: string[];
+}
+
+/* A function that maps the token claims to a SessionIdentity */
+export type ClaimsMapper<TClaims extends TokenClaims = TokenData> = (claims: TClaims) => SessionIdentity;
+
+/* A custom check of whether the user has a permission */
+export type PermissionCheck<TClaims extends TokenClaims = TokenData> = (identity: SessionIdentity, claims: TClaims) => boolean;
+
+/* The permission required: a scope, a list of scopes (all of which are required) or a custom check */
+export type Permission<TClaims extends TokenClaims = TokenData> = string | string[] | PermissionCheck<TClaims>;
+
+/* The events emitted over the lifetime of a session */
+export type SessionEventType = 'login' | 'logout' | 'refresh' | 'refreshFailed' | 'sessionExpired' | 'unauthorized';
+
+/* A session event. tokenData is from the new token for login/refresh, otherwise the current one */
+export interface SessionEvent {
+   type: SessionEventType;
+   tokenData: TokenData;
+   error?: APIError;
+}
+
+/* An emitter for session events */
+export interface SessionEvents {
+   /* Listen for an event (or all events), returning a function to stop listening */
+   on: (type: SessionEventType | '*', listener: (event: SessionEvent) => void) => () => void;
+   emit: (event: SessionEvent) => void;
+}
+
+/* The callbacks for session events that can be given to APIProvider */
+export interface SessionCallbacks {
+   onLogin?: (event: SessionEvent) => void;
+   onLogout?: (event: SessionEvent) => void;
+   onRefresh?: (event: SessionEvent) => void;
+   onRefreshFailed?: (event: SessionEvent) => void;
+   onSessionExpired?: (event: SessionEvent) => void;
+   onUnauthorized?: (event: SessionEvent) => void;
+}
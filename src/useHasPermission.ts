@@ -0,0 +1,25 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2023 Josef Barnes
+ *
+ * useHasPermission.ts: This file contains the useHasPermission custom hook
+ */
+
+import useAPI from './useAPI';
+import { Permission, TokenClaims, TokenData } from './useAPI.types';
+
+/* Check if the current user is authenticated and has the given permission */
+const useHasPermission = <TClaims extends TokenClaims = TokenData>(permission: Permission<TClaims>): boolean => {
+   const { authenticated, user, readwrite, scopes, claims } = useAPI<TClaims>();
+   if (!authenticated) {
+      return false;
+   }
+   if (typeof permission === 'function') {
+      return !!claims && permission({ user, readwrite, scopes }, claims);
+   }
+   const required = typeof permission === 'string' ? [permission] : permission;
+   return required.every((scope) => scopes.includes(scope));
+};
+
+export default useHasPermission;